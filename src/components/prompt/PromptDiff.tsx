@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { diffWords } from "@/lib/textDiff";
+import { cn } from "@/lib/utils";
+
+interface PromptDiffProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+/** Inline word diff: removed words struck through, added words highlighted */
+export function PromptDiff({ before, after, className }: PromptDiffProps) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <p className={cn("whitespace-pre-wrap text-xs sm:text-sm leading-relaxed", className)}>
+      {segments.map((segment, i) => (
+        <span key={i}>
+          {i > 0 && " "}
+          <span
+            className={cn(
+              segment.type === "added" && "bg-quaternary/25 rounded-sm",
+              segment.type === "removed" && "bg-destructive/10 text-destructive line-through rounded-sm"
+            )}
+          >
+            {segment.text}
+          </span>
+        </span>
+      ))}
+    </p>
+  );
+}
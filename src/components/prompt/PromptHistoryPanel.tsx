@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { Clock, Star, Trash2, Copy, Check, ChevronDown, ChevronUp, X, Download, FileJson, FileText, ChevronLeft, ChevronRight } from "lucide-react";
+import { Clock, Star, Trash2, Copy, Check, ChevronDown, ChevronUp, X, Download, FileJson, FileText, ChevronLeft, ChevronRight, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   DropdownMenu,
@@ -8,7 +9,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { PromptHistoryItem } from "@/hooks/usePromptHistory";
+import { PromptHistoryItem, matchesHistorySearch } from "@/hooks/usePromptHistory";
+import { describeFraming, hasFraming } from "@/lib/framing";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
@@ -98,13 +100,15 @@ export function PromptHistoryPanel({
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [searchQuery, setSearchQuery] = useState("");
   const { toast } = useToast();
 
   const ITEMS_PER_PAGE = 10;
 
-  const filteredHistory = showFavoritesOnly
+  const filteredHistory = (showFavoritesOnly
     ? history.filter((item) => item.isFavorite)
-    : history;
+    : history
+  ).filter((item) => !searchQuery.trim() || matchesHistorySearch(item, searchQuery));
 
   // Pagination calculations
   const totalItems = filteredHistory.length;
@@ -162,6 +166,17 @@ export function PromptHistoryPanel({
       type: promptTypeLabels[item.promptType] || item.promptType,
       input: item.userInput,
       prompt: item.generatedPrompt,
+      ...(item.negativePrompt && { negativePrompt: item.negativePrompt }),
+      ...(item.subject && { subject: item.subject }),
+      ...(item.styleTags && { styleTags: item.styleTags }),
+      ...(item.mode && { mode: item.mode }),
+      ...(item.referenceImage && { referenceImage: item.referenceImage }),
+      ...(item.translatedIdea && { translatedInput: item.translatedIdea }),
+      ...(item.seed !== undefined && { seed: item.seed }),
+      ...(hasFraming(item.framing) && { framing: item.framing }),
+      ...(item.character && { character: item.character }),
+      ...(item.version && { version: item.version }),
+      ...(item.refinement && { refinement: item.refinement }),
       createdAt: new Date(item.createdAt).toISOString(),
       isFavorite: item.isFavorite || false,
     }));
@@ -203,14 +218,14 @@ export function PromptHistoryPanel({
 PROMPT #${index + 1}${item.isFavorite ? " ⭐ FAVORITE" : ""}
 ${divider}
 Type: ${promptTypeLabels[item.promptType] || item.promptType}
-Date: ${new Date(item.createdAt).toLocaleString()}
+Date: ${new Date(item.createdAt).toLocaleString()}${hasFraming(item.framing) ? `\nFraming: ${describeFraming(item.framing)}` : ""}${item.character ? `\nCharacter: ${item.character}` : ""}
 
 📝 INPUT:
-${item.userInput}
+${item.userInput}${item.translatedIdea ? `\n(EN) ${item.translatedIdea}` : ""}
 
 ✨ GENERATED PROMPT:
 ${item.generatedPrompt}
-`;
+${item.negativePrompt ? `\n🚫 NEGATIVE PROMPT:\n${item.negativePrompt}\n` : ""}`;
       })
       .join("\n\n");
 
@@ -316,11 +331,25 @@ ${"═".repeat(50)}\n\n`;
             </Button>
           </div>
 
+          {/* Search: matches the original and the translated idea */}
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setCurrentPage(1);
+              }}
+              placeholder="Search ideas or prompts..."
+              className="h-8 sm:h-9 pl-8 text-xs sm:text-sm"
+            />
+          </div>
+
 {/* History List */}
           <div className="space-y-2 sm:space-y-3 max-h-[350px] sm:max-h-[400px] overflow-y-auto pr-1 sm:pr-2">
             {paginatedHistory.length === 0 ? (
               <p className="text-center text-muted-foreground py-4 text-sm">
-                No {showFavoritesOnly ? "favorites" : "history"} yet
+                {searchQuery.trim() ? "No matches" : `No ${showFavoritesOnly ? "favorites" : "history"} yet`}
               </p>
             ) : (
               paginatedHistory.map((item) => (
@@ -342,6 +371,61 @@ ${"═".repeat(50)}\n\n`;
                       >
                         {promptTypeLabels[item.promptType] || item.promptType}
                       </span>
+                      {item.ideaCount !== undefined && item.ideaCount > 1 && (
+                        <span className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card">
+                          Idea {(item.ideaIndex ?? 0) + 1}/{item.ideaCount}
+                        </span>
+                      )}
+                      {item.referenceImage && (
+                        <span
+                          className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card max-w-[10rem] truncate"
+                          title={`From image: ${item.referenceImage}`}
+                        >
+                          🖼️ {item.referenceImage}
+                        </span>
+                      )}
+                      {item.mode === "enhance" && (
+                        <span className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card">
+                          Enhanced
+                        </span>
+                      )}
+                      {item.mode === "storyboard" && (
+                        <span className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card">
+                          🎬 Storyboard
+                        </span>
+                      )}
+                      {item.seed !== undefined && (
+                        <span
+                          className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card"
+                          title="Composed offline; the same idea, settings and seed give this prompt again"
+                        >
+                          Seed {item.seed}
+                        </span>
+                      )}
+                      {hasFraming(item.framing) && (
+                        <span
+                          className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card max-w-[12rem] truncate"
+                          title={`Framing: ${describeFraming(item.framing)}`}
+                        >
+                          🎥 {describeFraming(item.framing)}
+                        </span>
+                      )}
+                      {item.character && (
+                        <span
+                          className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card max-w-[10rem] truncate"
+                          title={`Character: ${item.character}`}
+                        >
+                          👤 {item.character}
+                        </span>
+                      )}
+                      {item.version !== undefined && item.version > 1 && (
+                        <span
+                          className="px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-primary/30 bg-primary/10"
+                          title={item.refinement ? `Refined: ${item.refinement}` : undefined}
+                        >
+                          v{item.version}
+                        </span>
+                      )}
                       <span className="text-[10px] sm:text-xs text-muted-foreground">
                         {formatDate(item.createdAt)}
                       </span>
@@ -371,6 +455,16 @@ ${"═".repeat(50)}\n\n`;
 
                   {/* User Input Preview */}
                   <p className="text-xs sm:text-sm font-medium mb-2 line-clamp-2">{item.userInput}</p>
+                  {item.translatedIdea && (
+                    <p className="text-[10px] sm:text-xs text-muted-foreground mb-2 line-clamp-2" title="Translated idea">
+                      EN: {item.translatedIdea}
+                    </p>
+                  )}
+                  {item.refinement && (
+                    <p className="text-[10px] sm:text-xs text-muted-foreground mb-2 line-clamp-1">
+                      ↳ {item.refinement}
+                    </p>
+                  )}
 
                   {/* Expand/Collapse */}
                   <button
@@ -385,6 +479,36 @@ ${"═".repeat(50)}\n\n`;
                     <div className="mt-2 sm:mt-3 pt-2 sm:pt-3 border-t border-border space-y-2 sm:space-y-3">
                       <div className="bg-card rounded-lg p-2 sm:p-3 border-2 border-border">
                         <p className="text-xs sm:text-sm whitespace-pre-wrap">{item.generatedPrompt}</p>
+                        {item.negativePrompt && (
+                          <div className="mt-2 pt-2 border-t border-border/50">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-[10px] sm:text-xs font-semibold">Negative prompt</span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleCopy(item.negativePrompt!, `${item.id}-negative`)}
+                                className="gap-1 text-[10px] sm:text-xs h-6 px-2"
+                              >
+                                {copiedId === `${item.id}-negative` ? (
+                                  <Check className="h-3 w-3" />
+                                ) : (
+                                  <Copy className="h-3 w-3" />
+                                )}
+                                <span>{copiedId === `${item.id}-negative` ? "Copied!" : "Copy"}</span>
+                              </Button>
+                            </div>
+                            <p className="text-[10px] sm:text-xs text-muted-foreground">{item.negativePrompt}</p>
+                          </div>
+                        )}
+                        {(item.subject || (item.styleTags && item.styleTags.length > 0)) && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {[item.subject, ...(item.styleTags || [])].filter(Boolean).map((tag) => (
+                              <span key={tag} className="px-1.5 py-0.5 rounded-full text-[10px] border border-border bg-muted">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <div className="flex gap-1.5 sm:gap-2">
                         <Button
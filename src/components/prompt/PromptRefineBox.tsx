@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RefinementTurn } from "@/lib/generatePrompt";
+
+interface PromptRefineBoxProps {
+  thread: RefinementTurn[];
+  baseVersion?: number; // Version of the prompt the thread started from
+  isRefining: boolean;
+  disabled?: boolean;
+  onRefine: (instruction: string) => Promise<boolean>; // Resolves true when the prompt was replaced
+}
+
+export function PromptRefineBox({ thread, baseVersion = 1, isRefining, disabled, onRefine }: PromptRefineBoxProps) {
+  const [instruction, setInstruction] = useState("");
+
+  const handleSubmit = async () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || isRefining || disabled) return;
+    // Keep the text if the request fails so it can be retried
+    if (await onRefine(trimmed)) {
+      setInstruction("");
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+      {thread.length > 0 && (
+        <div className="space-y-1.5">
+          {thread.map((turn, i) => (
+            <div key={i} className="flex items-start justify-end gap-2">
+              <span className="max-w-[85%] px-2.5 py-1 rounded-xl rounded-tr-sm text-xs bg-primary/10 border border-primary/20">
+                {turn.instruction}
+              </span>
+              <span className="shrink-0 pt-1 text-[10px] font-semibold text-muted-foreground">
+                v{baseVersion + i + 1}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        <Input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder='Refine: "make it night time, remove the dog"'
+          disabled={isRefining || disabled}
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={!instruction.trim() || isRefining || disabled}
+          className="h-8 px-2.5"
+          title="Refine this prompt"
+        >
+          {isRefining ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Check, Copy, Download, FileText, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Storyboard, formatShotListCsv, formatShotListText, formatTimecode } from "@/lib/storyboard";
+import { describeFraming } from "@/lib/framing";
+import { useToast } from "@/hooks/use-toast";
+
+interface StoryboardTableProps {
+  storyboard: Storyboard;
+}
+
+/** One row per shot with its timing, camera move and prompt, plus shot list exports */
+export function StoryboardTable({ storyboard }: StoryboardTableProps) {
+  const [copiedShot, setCopiedShot] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const handleCopyShot = async (shot: number, prompt: string) => {
+    await navigator.clipboard.writeText(prompt);
+    setCopiedShot(shot);
+    toast({
+      title: "Copied!",
+      description: `Shot #${shot} copied to clipboard`,
+    });
+    setTimeout(() => setCopiedShot(null), 2000);
+  };
+
+  const handleCopyAll = async () => {
+    await navigator.clipboard.writeText(formatShotListText(storyboard));
+    toast({
+      title: "All Copied!",
+      description: `${storyboard.shots.length} shots copied to clipboard`,
+    });
+  };
+
+  const handleExport = (format: "csv" | "txt") => {
+    const content = format === "csv" ? formatShotListCsv(storyboard) : formatShotListText(storyboard);
+    const blob = new Blob([content], { type: format === "csv" ? "text/csv" : "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `shot-list-${storyboard.promptType}-${Date.now()}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "📄 Exported!",
+      description: `Shot list saved as ${format.toUpperCase()}`,
+    });
+  };
+
+  const framing = describeFraming(storyboard.framing);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          {storyboard.shots.length} shots · {formatTimecode(storyboard.totalDuration)} total{framing && ` · ${framing}`}{storyboard.character && ` · 👤 ${storyboard.character}`}
+        </p>
+        <div className="flex gap-1.5">
+          <Button variant="outline" size="sm" onClick={handleCopyAll} className="gap-1 text-xs h-8 px-2">
+            <Copy className="h-3.5 w-3.5" />
+            Copy All
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport("csv")} className="gap-1 text-xs h-8 px-2">
+            <Download className="h-3.5 w-3.5" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport("txt")} className="gap-1 text-xs h-8 px-2">
+            <FileText className="h-3.5 w-3.5" />
+            TXT
+          </Button>
+        </div>
+      </div>
+
+      {storyboard.shots.length < storyboard.requestedShots && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3.5 w-3.5" />
+          The response was cut off: {storyboard.shots.length} of {storyboard.requestedShots} shots, stretched over the full duration
+        </p>
+      )}
+
+      {storyboard.continuity && (
+        <div className="bg-muted rounded-xl p-3 border-2 border-border">
+          <span className="text-xs font-semibold">Continuity</span>
+          <p className="text-xs text-muted-foreground leading-relaxed">{storyboard.continuity}</p>
+        </div>
+      )}
+
+      <div className="rounded-xl border-2 border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10 text-xs">#</TableHead>
+              <TableHead className="w-24 text-xs">Time</TableHead>
+              <TableHead className="w-32 text-xs">Camera</TableHead>
+              <TableHead className="text-xs">Shot Prompt</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {storyboard.shots.map((shot) => (
+              <TableRow key={shot.shot} className="align-top">
+                <TableCell className="text-xs font-bold">{shot.shot}</TableCell>
+                <TableCell className="text-xs whitespace-nowrap">
+                  {formatTimecode(shot.start)}–{formatTimecode(shot.start + shot.duration)}
+                  <span className="block text-muted-foreground">{shot.duration}s</span>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {shot.cameraMove}
+                  {shot.shotSize && <span className="block text-muted-foreground">{shot.shotSize}</span>}
+                </TableCell>
+                <TableCell className="text-xs leading-relaxed min-w-[16rem]">{shot.prompt}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopyShot(shot.shot, shot.prompt)}
+                    className="h-7 px-2"
+                    title="Copy shot prompt"
+                  >
+                    {copiedShot === shot.shot ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
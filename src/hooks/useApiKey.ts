@@ -1,39 +1,40 @@
 import { useState, useEffect, useCallback } from "react";
 import { secureStorage, isCryptoAvailable, clearAllSensitiveData } from "@/lib/secureStorage";
-import { sanitizeApiKey, sanitizeModelName, isValidProvider } from "@/lib/sanitize";
+import { sanitizeApiKey, sanitizeModelName, sanitizeLocalBaseUrl, isValidProvider } from "@/lib/sanitize";
+import { clampConcurrency } from "@/lib/requestScheduler";
+import { DEFAULT_SIMILARITY_THRESHOLD } from "@/lib/similarity";
+import { DEFAULT_OUTPUT_LANGUAGE, OutputLanguage, isValidOutputLanguage } from "@/lib/languageDetect";
+import { ApiProvider, getProviderAdapter } from "@/lib/providerAdapters";
+import { DEFAULT_MOCK_CONFIG, MockProviderConfig, configureMockProvider, sanitizeMockProviderConfig } from "@/lib/mockProvider";
 
 const API_KEYS_STORAGE_KEY = "mirava_api_keys";
 const API_PROVIDER_STORAGE_KEY = "mirava_api_provider";
 const API_MODEL_STORAGE_KEY = "mirava_api_model";
 const SELECTED_CUSTOM_MODEL_KEY = "mirava_selected_custom_model";
+const LOCAL_BASE_URL_STORAGE_KEY = "mirava_local_base_url";
+const FALLBACK_PROVIDERS_STORAGE_KEY = "mirava_fallback_providers";
+const CONCURRENCY_LIMITS_STORAGE_KEY = "mirava_concurrency_limits";
+const STRUCTURED_OUTPUT_STORAGE_KEY = "mirava_structured_output";
+const SIMILARITY_THRESHOLD_STORAGE_KEY = "mirava_similarity_threshold";
+const OUTPUT_LANGUAGE_STORAGE_KEY = "mirava_output_language";
+const MOCK_PROVIDER_STORAGE_KEY = "mirava_mock_provider";
 
 // TTL for API keys - 24 hours (can be adjusted)
 const API_KEY_TTL_MS = 24 * 60 * 60 * 1000;
 
-export type ApiProvider = "openai" | "gemini" | "openrouter" | "groq" | "custom";
-
-export const providerEndpoints: Record<Exclude<ApiProvider, "custom">, { base: string; modelsPath: string; authType: "bearer" | "query" }> = {
-  openai: {
-    base: "https://api.openai.com/v1",
-    modelsPath: "/models",
-    authType: "bearer",
-  },
-  gemini: {
-    base: "https://generativelanguage.googleapis.com/v1beta",
-    modelsPath: "/models",
-    authType: "query",
-  },
-  openrouter: {
-    base: "https://openrouter.ai/api/v1",
-    modelsPath: "/models",
-    authType: "bearer",
-  },
-  groq: {
-    base: "https://api.groq.com/openai/v1",
-    modelsPath: "/models",
-    authType: "bearer",
-  },
-};
+export type { ApiProvider };
+
+/** Presets offered in Settings for the local provider */
+export const localServerPresets = [
+  { id: "ollama", name: "Ollama", baseUrl: "http://localhost:11434/v1" },
+  { id: "lmstudio", name: "LM Studio", baseUrl: "http://127.0.0.1:1234/v1" },
+] as const;
+
+// Ordered fallback chain entry. Custom models carry their own keys and URLs, so they are not offered here.
+export interface FallbackProviderConfig {
+  provider: Exclude<ApiProvider, "custom">;
+  model: string; // Empty string uses the provider's default model
+}
 
 // Store API keys per provider
 type ApiKeys = Partial<Record<Exclude<ApiProvider, "custom">, string>>;
@@ -45,11 +46,38 @@ export interface SecurityStatus {
   lastSecurityCheck: number;
 }
 
+function sanitizeFallbackProviders(list: unknown[]): FallbackProviderConfig[] {
+  const seen = new Set<string>();
+  const result: FallbackProviderConfig[] = [];
+  for (const entry of list) {
+    const prov = (entry as { provider?: unknown })?.provider;
+    if (typeof prov !== "string" || prov === "custom" || !isValidProvider(prov) || seen.has(prov)) {
+      continue;
+    }
+    seen.add(prov);
+    const mod = (entry as { model?: unknown }).model;
+    result.push({
+      provider: prov as FallbackProviderConfig["provider"],
+      model: typeof mod === "string" ? sanitizeModelName(mod) : "",
+    });
+  }
+  return result;
+}
+
 export function useApiKey() {
   const [apiKeys, setApiKeysState] = useState<ApiKeys>({});
   const [provider, setProviderState] = useState<ApiProvider>("openai");
   const [model, setModelState] = useState<string>("");
   const [selectedCustomModelId, setSelectedCustomModelIdState] = useState<string>("");
+  const [localBaseUrl, setLocalBaseUrlState] = useState<string>(getProviderAdapter("local").defaultBaseUrl);
+  const [fallbackProviders, setFallbackProvidersState] = useState<FallbackProviderConfig[]>([]);
+  // Only providers the user changed are stored; the rest use DEFAULT_CONCURRENCY_LIMITS
+  const [concurrencyLimits, setConcurrencyLimitsState] = useState<Partial<Record<ApiProvider, number>>>({});
+  const [structuredOutput, setStructuredOutputState] = useState(false);
+  // 0 turns the near-duplicate retry off
+  const [similarityThreshold, setSimilarityThresholdState] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [outputLanguage, setOutputLanguageState] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  const [mockProviderConfig, setMockProviderConfigState] = useState<MockProviderConfig>(DEFAULT_MOCK_CONFIG);
   const [isLoading, setIsLoading] = useState(true);
   const [securityStatus, setSecurityStatus] = useState<SecurityStatus>({
     isEncryptionAvailable: false,
@@ -112,6 +140,13 @@ export function useApiKey() {
         const storedProvider = localStorage.getItem(API_PROVIDER_STORAGE_KEY);
         const storedModel = localStorage.getItem(API_MODEL_STORAGE_KEY);
         const storedCustomModelId = localStorage.getItem(SELECTED_CUSTOM_MODEL_KEY);
+        const storedLocalBaseUrl = localStorage.getItem(LOCAL_BASE_URL_STORAGE_KEY);
+        const storedFallbacks = localStorage.getItem(FALLBACK_PROVIDERS_STORAGE_KEY);
+        const storedConcurrency = localStorage.getItem(CONCURRENCY_LIMITS_STORAGE_KEY);
+        const storedStructuredOutput = localStorage.getItem(STRUCTURED_OUTPUT_STORAGE_KEY);
+        const storedSimilarityThreshold = localStorage.getItem(SIMILARITY_THRESHOLD_STORAGE_KEY);
+        const storedOutputLanguage = localStorage.getItem(OUTPUT_LANGUAGE_STORAGE_KEY);
+        const storedMockProvider = localStorage.getItem(MOCK_PROVIDER_STORAGE_KEY);
 
         if (storedProvider && isValidProvider(storedProvider)) {
           setProviderState(storedProvider as ApiProvider);
@@ -122,6 +157,56 @@ export function useApiKey() {
         if (storedCustomModelId) {
           setSelectedCustomModelIdState(sanitizeModelName(storedCustomModelId));
         }
+        if (storedLocalBaseUrl) {
+          const sanitizedUrl = sanitizeLocalBaseUrl(storedLocalBaseUrl);
+          if (sanitizedUrl) {
+            setLocalBaseUrlState(sanitizedUrl.replace(/\/+$/, ""));
+          }
+        }
+        if (storedFallbacks) {
+          try {
+            const parsed = JSON.parse(storedFallbacks);
+            if (Array.isArray(parsed)) {
+              setFallbackProvidersState(sanitizeFallbackProviders(parsed));
+            }
+          } catch {
+            // Invalid fallback list, ignore
+          }
+        }
+        if (storedConcurrency) {
+          try {
+            const parsed = JSON.parse(storedConcurrency);
+            const limits: Partial<Record<ApiProvider, number>> = {};
+            for (const [prov, limit] of Object.entries(parsed ?? {})) {
+              if (isValidProvider(prov) && typeof limit === "number") {
+                limits[prov] = clampConcurrency(limit);
+              }
+            }
+            setConcurrencyLimitsState(limits);
+          } catch {
+            // Invalid limits, ignore
+          }
+        }
+        setStructuredOutputState(storedStructuredOutput === "true");
+        if (storedSimilarityThreshold !== null) {
+          const threshold = parseFloat(storedSimilarityThreshold);
+          if (Number.isFinite(threshold) && threshold >= 0 && threshold <= 1) {
+            setSimilarityThresholdState(threshold);
+          }
+        }
+        if (isValidOutputLanguage(storedOutputLanguage)) {
+          setOutputLanguageState(storedOutputLanguage);
+        }
+        if (storedMockProvider) {
+          try {
+            // The mock adapter reads its config from a module singleton
+            const mockConfig = sanitizeMockProviderConfig(JSON.parse(storedMockProvider));
+            configureMockProvider(mockConfig);
+            setMockProviderConfigState(mockConfig);
+          } catch {
+            // Invalid mock settings, keep the defaults
+          }
+        }
       } catch {
         // Only log in development to prevent information leakage
         if (import.meta.env.DEV) {
@@ -203,6 +288,71 @@ export function useApiKey() {
     localStorage.setItem(SELECTED_CUSTOM_MODEL_KEY, sanitized);
   }, []);
 
+  /**
+   * Set the loopback base URL for the local provider.
+   * Returns false (and keeps the previous URL) if it is not a localhost URL.
+   */
+  const setLocalBaseUrl = useCallback((url: string): boolean => {
+    const sanitized = sanitizeLocalBaseUrl(url);
+    if (!sanitized) {
+      return false;
+    }
+    const normalized = sanitized.replace(/\/+$/, "");
+    setLocalBaseUrlState(normalized);
+    localStorage.setItem(LOCAL_BASE_URL_STORAGE_KEY, normalized);
+    return true;
+  }, []);
+
+  /**
+   * Replace the ordered fallback chain. Invalid and duplicate providers are dropped.
+   */
+  const setFallbackProviders = useCallback((list: FallbackProviderConfig[]) => {
+    const sanitized = sanitizeFallbackProviders(list);
+    setFallbackProvidersState(sanitized);
+    localStorage.setItem(FALLBACK_PROVIDERS_STORAGE_KEY, JSON.stringify(sanitized));
+  }, []);
+
+  /**
+   * Set how many requests may run in parallel against a provider.
+   */
+  const setConcurrencyLimit = useCallback((prov: ApiProvider, limit: number) => {
+    if (!isValidProvider(prov)) return;
+    setConcurrencyLimitsState((prev) => {
+      const updated = { ...prev, [prov]: clampConcurrency(limit) };
+      localStorage.setItem(CONCURRENCY_LIMITS_STORAGE_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  const setStructuredOutput = useCallback((enabled: boolean) => {
+    setStructuredOutputState(enabled);
+    localStorage.setItem(STRUCTURED_OUTPUT_STORAGE_KEY, String(enabled));
+  }, []);
+
+  const setSimilarityThreshold = useCallback((threshold: number) => {
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) return;
+    setSimilarityThresholdState(threshold);
+    localStorage.setItem(SIMILARITY_THRESHOLD_STORAGE_KEY, String(threshold));
+  }, []);
+
+  const setOutputLanguage = useCallback((language: OutputLanguage) => {
+    if (!isValidOutputLanguage(language)) return;
+    setOutputLanguageState(language);
+    localStorage.setItem(OUTPUT_LANGUAGE_STORAGE_KEY, language);
+  }, []);
+
+  /**
+   * Change part of the mock provider's behaviour (noise, truncation, failures).
+   */
+  const setMockProviderConfig = useCallback((changes: Partial<MockProviderConfig>) => {
+    setMockProviderConfigState((prev) => {
+      const updated = sanitizeMockProviderConfig({ ...prev, ...changes });
+      configureMockProvider(updated);
+      localStorage.setItem(MOCK_PROVIDER_STORAGE_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
   const clearApiKeyForProvider = useCallback(async (prov: Exclude<ApiProvider, "custom">) => {
     const updated = { ...apiKeys };
     delete updated[prov];
@@ -251,55 +401,21 @@ export function useApiKey() {
     prov: Exclude<ApiProvider, "custom">,
     key: string
   ): Promise<{ valid: boolean; error?: string }> => {
-    const endpoint = providerEndpoints[prov];
-    if (!endpoint) {
-      return { valid: false, error: 'Unknown provider' };
-    }
-
-    try {
-      let fetchUrl: string;
-      let headers: HeadersInit = { 'Content-Type': 'application/json' };
-
-      if (endpoint.authType === "query") {
-        // Gemini uses API key as query parameter
-        fetchUrl = `${endpoint.base}${endpoint.modelsPath}?key=${key}`;
-      } else {
-        // Others use Bearer token
-        fetchUrl = `${endpoint.base}${endpoint.modelsPath}`;
-        headers = { ...headers, 'Authorization': `Bearer ${key}` };
-      }
-
-      const response = await fetch(fetchUrl, {
-        method: 'GET',
-        headers,
-      });
-
-      if (response.ok) {
-        return { valid: true };
-      }
-
-      const errorData = await response.json().catch(() => ({}));
-      return { 
-        valid: false, 
-        error: errorData.error?.message || `HTTP ${response.status}` 
-      };
-    } catch (error) {
-      return { 
-        valid: false, 
-        error: error instanceof Error ? error.message : 'Network error' 
-      };
-    }
-  }, []);
+    const adapter = getProviderAdapter(prov);
+    return adapter.validateKey(key, adapter.baseUrlPolicy === "local" ? localBaseUrl : adapter.defaultBaseUrl);
+  }, [localBaseUrl]);
 
   // Current provider's API key (for non-custom)
   const currentApiKey = provider !== "custom" ? (apiKeys[provider] || "") : "";
-  const hasApiKey = provider === "custom" ? true : currentApiKey.length > 0;
+  // Local servers usually run without auth and the mock never needs one
+  const hasApiKey = provider === "custom" || !getProviderAdapter(provider).requiresKey ? true : currentApiKey.length > 0;
 
   return {
     apiKeys,
     provider,
     model,
     selectedCustomModelId,
+    localBaseUrl,
     currentApiKey,
     isLoading,
     securityStatus,
@@ -308,6 +424,19 @@ export function useApiKey() {
     setProvider,
     setModel,
     setSelectedCustomModelId,
+    setLocalBaseUrl,
+    fallbackProviders,
+    setFallbackProviders,
+    concurrencyLimits,
+    setConcurrencyLimit,
+    structuredOutput,
+    setStructuredOutput,
+    similarityThreshold,
+    setSimilarityThreshold,
+    outputLanguage,
+    setOutputLanguage,
+    mockProviderConfig,
+    setMockProviderConfig,
     clearApiKeyForProvider,
     clearAllKeys,
     maskApiKey,
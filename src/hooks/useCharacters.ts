@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { CharacterProfile, CharacterDraft, sanitizeCharacterProfile } from "@/lib/characters";
+
+const CHARACTERS_STORAGE_KEY = "mirava_characters";
+const SELECTED_CHARACTER_STORAGE_KEY = "mirava_selected_character";
+
+function sanitizeCharacterProfiles(value: unknown): CharacterProfile[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const profiles: CharacterProfile[] = [];
+  for (const entry of value) {
+    const profile = sanitizeCharacterProfile(entry);
+    if (!profile || seen.has(profile.id)) continue;
+    seen.add(profile.id);
+    profiles.push(profile);
+  }
+  return profiles;
+}
+
+/** Character profiles and the one injected into generations, kept in localStorage */
+export function useCharacters() {
+  const [characters, setCharactersState] = useState<CharacterProfile[]>([]);
+  const [selectedCharacterId, setSelectedCharacterIdState] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(CHARACTERS_STORAGE_KEY);
+    if (stored) {
+      try {
+        setCharactersState(sanitizeCharacterProfiles(JSON.parse(stored)));
+      } catch {
+        setCharactersState([]);
+      }
+    }
+    setSelectedCharacterIdState(localStorage.getItem(SELECTED_CHARACTER_STORAGE_KEY));
+  }, []);
+
+  const saveToStorage = (profiles: CharacterProfile[]) => {
+    localStorage.setItem(CHARACTERS_STORAGE_KEY, JSON.stringify(profiles));
+  };
+
+  /** Add a profile, or replace the profile with the same id; null when the draft lacks a name or description */
+  const saveCharacter = (draft: CharacterDraft, id?: string) => {
+    const profile = sanitizeCharacterProfile({ ...draft, id });
+    if (!profile) return null;
+    const exists = characters.some((c) => c.id === profile.id);
+    const updated = exists
+      ? characters.map((c) => (c.id === profile.id ? profile : c))
+      : [...characters, profile];
+    setCharactersState(updated);
+    saveToStorage(updated);
+    return profile;
+  };
+
+  const setSelectedCharacterId = (id: string | null) => {
+    setSelectedCharacterIdState(id);
+    if (id) {
+      localStorage.setItem(SELECTED_CHARACTER_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(SELECTED_CHARACTER_STORAGE_KEY);
+    }
+  };
+
+  const removeCharacter = (id: string) => {
+    const updated = characters.filter((c) => c.id !== id);
+    setCharactersState(updated);
+    saveToStorage(updated);
+    if (selectedCharacterId === id) {
+      setSelectedCharacterId(null);
+    }
+  };
+
+  // A selection whose profile was deleted (e.g. in another tab) counts as none
+  const selectedCharacter = characters.find((c) => c.id === selectedCharacterId);
+
+  return {
+    characters,
+    selectedCharacter,
+    selectedCharacterId: selectedCharacter ? selectedCharacter.id : null,
+    setSelectedCharacterId,
+    saveCharacter,
+    removeCharacter,
+  };
+}
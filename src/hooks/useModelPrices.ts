@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo } from "react";
+import { DEFAULT_MODEL_PRICES, ModelPrice, ModelPriceTable } from "@/lib/pricing";
+import { sanitizeModelName } from "@/lib/sanitize";
+
+const MODEL_PRICES_STORAGE_KEY = "mirava_model_prices";
+
+function isValidPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return !!price &&
+    typeof price.input === "number" && Number.isFinite(price.input) && price.input >= 0 &&
+    typeof price.output === "number" && Number.isFinite(price.output) && price.output >= 0;
+}
+
+/**
+ * Per-model price table. Only user overrides are stored; they are merged over
+ * DEFAULT_MODEL_PRICES, so updated defaults still reach models the user never edited.
+ */
+export function useModelPrices() {
+  const [overrides, setOverrides] = useState<ModelPriceTable>({});
+
+  useEffect(() => {
+    const stored = localStorage.getItem(MODEL_PRICES_STORAGE_KEY);
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored);
+        const valid: ModelPriceTable = {};
+        for (const [model, price] of Object.entries(parsed ?? {})) {
+          if (isValidPrice(price)) {
+            valid[model] = price;
+          }
+        }
+        setOverrides(valid);
+      } catch {
+        setOverrides({});
+      }
+    }
+  }, []);
+
+  const saveToStorage = (table: ModelPriceTable) => {
+    localStorage.setItem(MODEL_PRICES_STORAGE_KEY, JSON.stringify(table));
+  };
+
+  const prices = useMemo(() => ({ ...DEFAULT_MODEL_PRICES, ...overrides }), [overrides]);
+
+  const setModelPrice = (model: string, price: ModelPrice) => {
+    const id = sanitizeModelName(model);
+    if (!id || !isValidPrice(price)) return false;
+    const updated = { ...overrides, [id]: price };
+    setOverrides(updated);
+    saveToStorage(updated);
+    return true;
+  };
+
+  const resetModelPrice = (model: string) => {
+    const { [model]: _, ...rest } = overrides;
+    setOverrides(rest);
+    saveToStorage(rest);
+  };
+
+  const resetAllPrices = () => {
+    setOverrides({});
+    localStorage.removeItem(MODEL_PRICES_STORAGE_KEY);
+  };
+
+  return {
+    prices,
+    overrides,
+    setModelPrice,
+    resetModelPrice,
+    resetAllPrices,
+  };
+}
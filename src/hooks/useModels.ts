@@ -1,34 +1,39 @@
 import { useState, useCallback } from "react";
-import { ApiProvider, providerEndpoints } from "./useApiKey";
+import { ApiProvider, ModelInfo, getProviderAdapter } from "@/lib/providerAdapters";
+import { resolveProviderBaseUrl } from "@/lib/generatePrompt";
 
-export interface ModelInfo {
-  id: string;
-  name: string;
-  description?: string;
-}
+export type { ModelInfo };
 
 // Cache for models to avoid repeated API calls
 const modelsCache: Map<string, { models: ModelInfo[]; timestamp: number }> = new Map();
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes cache
 
+function getCacheKey(provider: ApiProvider, apiKey: string, customBaseUrl?: string): string {
+  // Local servers often have no key, so the URL is what identifies them
+  return !getProviderAdapter(provider).requiresKey
+    ? `${provider}-${customBaseUrl || ""}`
+    : `${provider}-${apiKey.slice(-8)}`;
+}
+
 export function useModels() {
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const fetchModels = useCallback(async (provider: ApiProvider, apiKey: string, customBaseUrl?: string) => {
-    if (!apiKey) {
+    const adapter = getProviderAdapter(provider);
+    if (!apiKey && adapter.requiresKey) {
       setError("API key is required");
       return;
     }
 
-    if (provider === "custom" && !customBaseUrl) {
+    if (adapter.baseUrlPolicy === "custom" && !customBaseUrl) {
       setError("Base URL is required for custom provider");
       return;
     }
 
     // Check cache first
-    const cacheKey = `${provider}-${apiKey.slice(-8)}`;
+    const cacheKey = getCacheKey(provider, apiKey, customBaseUrl);
     const cached = modelsCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
       setModels(cached.models);
@@ -41,84 +46,7 @@ export function useModels() {
     setModels([]);
 
     try {
-      let fetchUrl: string;
-      let headers: HeadersInit = {};
-
-      if (provider === "custom") {
-        // Custom provider - assume OpenAI-compatible
-        const baseUrl = customBaseUrl!.replace(/\/+$/, "");
-        fetchUrl = `${baseUrl}/models`;
-        headers = { Authorization: `Bearer ${apiKey}` };
-      } else {
-        const endpoint = providerEndpoints[provider];
-        
-        if (endpoint.authType === "query") {
-          // Gemini uses API key as query parameter
-          fetchUrl = `${endpoint.base}${endpoint.modelsPath}?key=${apiKey}`;
-        } else {
-          // OpenAI, OpenRouter, Groq use Bearer token
-          fetchUrl = `${endpoint.base}${endpoint.modelsPath}`;
-          headers = { Authorization: `Bearer ${apiKey}` };
-        }
-      }
-
-      const response = await fetch(fetchUrl, { headers });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || `Failed to fetch models: ${response.status}`);
-      }
-
-      const data = await response.json();
-      let modelsList: ModelInfo[] = [];
-
-      if (provider === "gemini") {
-        // Gemini returns { models: [{ name: "models/gemini-1.5-pro", ... }] }
-        modelsList = (data.models || [])
-          .filter((m: any) => {
-            // Filter to only show generative models (not embedding, etc.)
-            const name = m.name || "";
-            return name.includes("gemini") && 
-                   m.supportedGenerationMethods?.includes("generateContent");
-          })
-          .map((m: any) => {
-            // Extract model ID from "models/gemini-1.5-pro" format
-            const fullName = m.name || "";
-            const id = fullName.replace("models/", "");
-            return {
-              id: id,
-              name: m.displayName || id,
-              description: m.description,
-            };
-          });
-      } else if (provider === "openrouter") {
-        // OpenRouter returns { data: [{ id, name, ... }] }
-        modelsList = (data.data || []).map((m: any) => ({
-          id: m.id,
-          name: m.name || m.id,
-          description: m.description,
-        }));
-      } else {
-        // OpenAI, Groq, and Custom - OpenAI-compatible format { data: [{ id, ... }] }
-        modelsList = (data.data || [])
-          .filter((m: any) => {
-            if (provider === "openai") {
-              // Filter to show only chat models (gpt, o1, o3)
-              const id = m.id || "";
-              return id.includes("gpt") || id.includes("o1") || id.includes("o3");
-            }
-            if (provider === "groq") {
-              // Filter to show only text generation models
-              const id = m.id || "";
-              return !id.includes("whisper") && !id.includes("distil");
-            }
-            return true;
-          })
-          .map((m: any) => ({
-            id: m.id,
-            name: m.id,
-          }));
-      }
+      const modelsList = await adapter.listModels(apiKey, resolveProviderBaseUrl(provider, customBaseUrl));
 
       // Sort alphabetically by name
       modelsList.sort((a, b) => a.name.localeCompare(b.name));
@@ -137,8 +65,7 @@ export function useModels() {
 
   // Force refresh (bypass cache)
   const refreshModels = useCallback(async (provider: ApiProvider, apiKey: string, customBaseUrl?: string) => {
-    const cacheKey = `${provider}-${apiKey.slice(-8)}`;
-    modelsCache.delete(cacheKey);
+    modelsCache.delete(getCacheKey(provider, apiKey, customBaseUrl));
     return fetchModels(provider, apiKey, customBaseUrl);
   }, [fetchModels]);
 
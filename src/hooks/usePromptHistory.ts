@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { z } from "zod";
 import { sanitizeInput, INPUT_LIMITS } from "@/lib/sanitize";
+import { FramingOptions, sanitizeFraming, hasFraming } from "@/lib/framing";
+import { CHARACTER_LIMITS } from "@/lib/characters";
 
 // ============================================================================
 // CONFIGURATION
@@ -22,6 +24,36 @@ const PromptHistoryItemSchema = z.object({
   generatedPrompt: z.string(),
   createdAt: z.number().positive(),
   isFavorite: z.boolean().optional().default(false),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  ideaIndex: z.number().int().nonnegative().optional(),
+  ideaCount: z.number().int().positive().optional(),
+  negativePrompt: z.string().optional(),
+  styleTags: z.array(z.string()).optional(),
+  subject: z.string().optional(),
+  usage: z.object({
+    inputTokens: z.number().nonnegative(),
+    outputTokens: z.number().nonnegative(),
+    totalTokens: z.number().nonnegative(),
+  }).optional(),
+  costUsd: z.number().nonnegative().optional(),
+  parentId: z.string().optional(),
+  version: z.number().int().positive().optional(),
+  refinement: z.string().optional(),
+  mode: z.string().optional(),
+  referenceImage: z.string().optional(),
+  translatedIdea: z.string().optional(),
+  inputLanguage: z.string().optional(),
+  seed: z.number().int().nonnegative().optional(),
+  framing: z.object({
+    aspectRatio: z.string().optional(),
+    resolution: z.string().optional(),
+    shotSize: z.string().optional(),
+    cameraAngle: z.string().optional(),
+    lens: z.string().optional(),
+  }).optional(),
+  character: z.string().optional(),
+  characterId: z.string().optional(),
 });
 
 const PromptHistoryArraySchema = z.array(PromptHistoryItemSchema);
@@ -33,6 +65,40 @@ export interface PromptHistoryItem {
   generatedPrompt: string;
   createdAt: number;
   isFavorite?: boolean;
+  provider?: string; // Provider that produced the prompt (may be a fallback)
+  model?: string;
+  ideaIndex?: number; // Which line of a multi-idea input produced this (userInput holds that line)
+  ideaCount?: number; // Number of ideas in the batch it came from
+  negativePrompt?: string;
+  styleTags?: string[]; // From structured output
+  subject?: string; // From structured output
+  usage?: { inputTokens: number; outputTokens: number; totalTokens: number };
+  costUsd?: number; // Estimate at generation time, using the price table of that moment
+  parentId?: string; // Previous version when this item is a refinement (may have been evicted)
+  version?: number; // 1 for a fresh generation, +1 per refinement
+  refinement?: string; // Instruction that turned the parent into this version
+  mode?: string; // "enhance" when userInput was an existing prompt, "storyboard" for a shot list; absent for normal generation
+  referenceImage?: string; // File name of the source image (image-to-prompt); the image is not stored
+  translatedIdea?: string; // English version of userInput when the idea was written in another language
+  inputLanguage?: string; // Detected language of userInput ("en", "id")
+  seed?: number; // Offline composer: seed that reproduces the prompt
+  framing?: FramingOptions; // Aspect ratio and camera choices the prompt was written for
+  character?: string; // Name of the character profile injected into the request
+  characterId?: string; // Id of that profile; refine looks the profile up by it
+}
+
+/** Tokens and estimated cost added up over a set of history items */
+export interface SpendTotal {
+  prompts: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedPrompts: number; // Had usage but no known price, so not in costUsd
+}
+
+export interface SpendSummary {
+  byDay: Record<string, SpendTotal>; // Keyed by local date, YYYY-MM-DD
+  byProvider: Record<string, SpendTotal>;
+  total: SpendTotal;
 }
 
 export interface StorageStats {
@@ -146,6 +212,50 @@ function getStorageStats(items: PromptHistoryItem[]): StorageStats {
   };
 }
 
+function addToSpend(total: SpendTotal | undefined, item: PromptHistoryItem): SpendTotal {
+  const base = total ?? { prompts: 0, totalTokens: 0, costUsd: 0, unpricedPrompts: 0 };
+  return {
+    prompts: base.prompts + 1,
+    totalTokens: base.totalTokens + (item.usage?.totalTokens ?? 0),
+    costUsd: base.costUsd + (item.costUsd ?? 0),
+    unpricedPrompts: base.unpricedPrompts + (item.usage && item.costUsd === undefined ? 1 : 0),
+  };
+}
+
+/**
+ * Total recorded usage per day and per provider. Only items with usage count,
+ * and only what is still in history (MAX_HISTORY_ITEMS, TTL_DAYS).
+ */
+function getSpendSummary(items: PromptHistoryItem[]): SpendSummary {
+  const summary: SpendSummary = {
+    byDay: {},
+    byProvider: {},
+    total: { prompts: 0, totalTokens: 0, costUsd: 0, unpricedPrompts: 0 },
+  };
+
+  for (const item of items) {
+    if (!item.usage) continue;
+    const date = new Date(item.createdAt);
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+    const provider = item.provider || "unknown";
+    summary.byDay[day] = addToSpend(summary.byDay[day], item);
+    summary.byProvider[provider] = addToSpend(summary.byProvider[provider], item);
+    summary.total = addToSpend(summary.total, item);
+  }
+
+  return summary;
+}
+
+/**
+ * Case-insensitive match on the idea (original and translated), the prompt
+ * and the prompt type, so an Indonesian idea is found by its English words too
+ */
+export function matchesHistorySearch(item: PromptHistoryItem, query: string): boolean {
+  const lowerQuery = query.trim().toLowerCase();
+  return [item.userInput, item.translatedIdea, item.generatedPrompt, item.promptType]
+    .some((field) => !!field && field.toLowerCase().includes(lowerQuery));
+}
+
 /**
  * Safely read from localStorage with error handling
  */
@@ -295,6 +405,24 @@ export function usePromptHistory() {
         userInput: sanitizeInput(item.userInput || '', INPUT_LIMITS.USER_INPUT),
         generatedPrompt: sanitizeInput(item.generatedPrompt || '', INPUT_LIMITS.HISTORY_ITEM),
         isFavorite: Boolean(item.isFavorite),
+        ...(item.provider && { provider: sanitizeInput(item.provider, 100) }),
+        ...(item.model && { model: sanitizeInput(item.model, INPUT_LIMITS.MODEL_NAME) }),
+        ...(item.negativePrompt && { negativePrompt: sanitizeInput(item.negativePrompt, INPUT_LIMITS.HISTORY_ITEM) }),
+        ...(item.styleTags?.length && { styleTags: item.styleTags.slice(0, 20).map((tag) => sanitizeInput(tag, 100)) }),
+        ...(item.subject && { subject: sanitizeInput(item.subject, 200) }),
+        ...(item.usage && { usage: item.usage }),
+        ...(item.costUsd !== undefined && Number.isFinite(item.costUsd) && { costUsd: item.costUsd }),
+        ...(item.parentId && { parentId: sanitizeInput(item.parentId, 100) }),
+        ...(item.version && Number.isInteger(item.version) && item.version > 0 && { version: item.version }),
+        ...(item.refinement && { refinement: sanitizeInput(item.refinement, INPUT_LIMITS.USER_INPUT) }),
+        ...(item.mode && { mode: sanitizeInput(item.mode, 20) }),
+        ...(item.referenceImage && { referenceImage: sanitizeInput(item.referenceImage, 255) }),
+        ...(item.translatedIdea && { translatedIdea: sanitizeInput(item.translatedIdea, INPUT_LIMITS.USER_INPUT) }),
+        ...(item.inputLanguage && { inputLanguage: sanitizeInput(item.inputLanguage, 10) }),
+        ...(item.seed !== undefined && Number.isInteger(item.seed) && item.seed >= 0 && { seed: item.seed }),
+        ...(hasFraming(item.framing) && { framing: sanitizeFraming(item.framing) }),
+        ...(item.character && { character: sanitizeInput(item.character, CHARACTER_LIMITS.NAME) }),
+        ...(item.characterId && { characterId: sanitizeInput(item.characterId, 100) }),
       };
 
       const newItem: PromptHistoryItem = {
@@ -400,6 +528,12 @@ export function usePromptHistory() {
     [history]
   );
 
+  // Token and cost totals (memoized)
+  const spendSummary = useMemo(
+    () => getSpendSummary(history),
+    [history]
+  );
+
   // Get history by prompt type (memoized factory)
   const getByPromptType = useCallback(
     (promptType: string) => history.filter((item) => item.promptType === promptType),
@@ -408,14 +542,22 @@ export function usePromptHistory() {
 
   // Search history
   const searchHistory = useCallback(
-    (query: string) => {
-      const lowerQuery = query.toLowerCase();
-      return history.filter(
-        (item) =>
-          item.userInput.toLowerCase().includes(lowerQuery) ||
-          item.generatedPrompt.toLowerCase().includes(lowerQuery) ||
-          item.promptType.toLowerCase().includes(lowerQuery)
-      );
+    (query: string) => history.filter((item) => matchesHistorySearch(item, query)),
+    [history]
+  );
+
+  // Refinement versions leading to an item, oldest first. Stops early when an
+  // ancestor has already left history.
+  const getVersionChain = useCallback(
+    (id: string) => {
+      const byId = new Map(history.map((item) => [item.id, item]));
+      const chain: PromptHistoryItem[] = [];
+      let current = byId.get(id);
+      while (current && !chain.includes(current)) {
+        chain.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+      return chain;
     },
     [history]
   );
@@ -482,9 +624,11 @@ export function usePromptHistory() {
     getFavorites: () => favorites, // Deprecated, use favorites directly
     getByPromptType,
     searchHistory,
+    getVersionChain,
     
     // Storage management
     storageStats,
+    spendSummary,
     
     // Import/Export
     exportHistory,
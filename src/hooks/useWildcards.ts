@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { WildcardList, normalizeWildcardName, parseWordList } from "@/lib/wildcards";
+
+const WILDCARDS_STORAGE_KEY = "mirava_wildcards";
+
+function sanitizeWildcardLists(value: unknown): WildcardList[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const lists: WildcardList[] = [];
+  for (const entry of value) {
+    const name = typeof entry?.name === "string" ? normalizeWildcardName(entry.name) : "";
+    if (!name || seen.has(name) || !Array.isArray(entry.words)) continue;
+    seen.add(name);
+    const words = parseWordList(entry.words.filter((w: unknown) => typeof w === "string").join("\n"));
+    lists.push({ name, words });
+  }
+  return lists;
+}
+
+/** Word lists for __name__ wildcards in the idea box, kept in localStorage */
+export function useWildcards() {
+  const [wildcardLists, setWildcardListsState] = useState<WildcardList[]>([]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(WILDCARDS_STORAGE_KEY);
+    if (stored) {
+      try {
+        setWildcardListsState(sanitizeWildcardLists(JSON.parse(stored)));
+      } catch {
+        setWildcardListsState([]);
+      }
+    }
+  }, []);
+
+  const saveToStorage = (lists: WildcardList[]) => {
+    localStorage.setItem(WILDCARDS_STORAGE_KEY, JSON.stringify(lists));
+  };
+
+  /** Add a list, or replace the words of the list with the same name */
+  const saveWildcardList = (name: string, words: string[]) => {
+    const list: WildcardList = { name: normalizeWildcardName(name), words: parseWordList(words.join("\n")) };
+    const exists = wildcardLists.some((l) => l.name === list.name);
+    const updated = exists
+      ? wildcardLists.map((l) => (l.name === list.name ? list : l))
+      : [...wildcardLists, list];
+    setWildcardListsState(updated);
+    saveToStorage(updated);
+    return list;
+  };
+
+  const removeWildcardList = (name: string) => {
+    const updated = wildcardLists.filter((l) => l.name !== name);
+    setWildcardListsState(updated);
+    saveToStorage(updated);
+  };
+
+  return {
+    wildcardLists,
+    saveWildcardList,
+    removeWildcardList,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Characters - reusable subject profiles
+ *
+ * A profile describes a recurring original character (a mascot, a model, a
+ * product) once: physical description, outfit, palette and the traits it must
+ * never be shown with. The selected profile is written into the system
+ * instructions of every request, so variations, styles and later sessions keep
+ * the same subject. Profiles live in localStorage (see useCharacters).
+ */
+
+import { sanitizeInput } from "./sanitize";
+
+export interface CharacterProfile {
+  id: string;
+  name: string; // Only for the user; image models don't know an original character's name
+  description: string; // Build, face, hair, skin/fur, distinguishing marks
+  outfit: string;
+  palette: string; // Signature colours
+  forbidden: string; // Traits the character must never be shown with, comma separated
+}
+
+export type CharacterDraft = Omit<CharacterProfile, "id">;
+
+export const EMPTY_CHARACTER_DRAFT: CharacterDraft = {
+  name: "",
+  description: "",
+  outfit: "",
+  palette: "",
+  forbidden: "",
+};
+
+export const CHARACTER_LIMITS = {
+  NAME: 60,
+  FIELD: 600,
+};
+
+function cleanField(value: unknown, limit: number): string {
+  return typeof value === "string" ? sanitizeInput(value, limit).replace(/\s+/g, " ").trim() : "";
+}
+
+/** A stored or drafted profile with trimmed fields; null without a name and a description */
+export function sanitizeCharacterProfile(value: unknown): CharacterProfile | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+  const name = cleanField(entry.name, CHARACTER_LIMITS.NAME);
+  const description = cleanField(entry.description, CHARACTER_LIMITS.FIELD);
+  if (!name || !description) return null;
+  return {
+    id: typeof entry.id === "string" && entry.id ? entry.id : `character_${Date.now()}`,
+    name,
+    description,
+    outfit: cleanField(entry.outfit, CHARACTER_LIMITS.FIELD),
+    palette: cleanField(entry.palette, CHARACTER_LIMITS.FIELD),
+    forbidden: cleanField(entry.forbidden, CHARACTER_LIMITS.FIELD),
+  };
+}
+
+/** "red scarf, glasses" -> ["red scarf", "glasses"] */
+export function getForbiddenTraits(profile: CharacterProfile | undefined): string[] {
+  if (!profile?.forbidden) return [];
+  return [...new Set(profile.forbidden.split(/[,;\n]/).map((trait) => trait.trim()).filter(Boolean))];
+}
+
+/** Phrases describing the character, for prompts written without a model */
+export function getCharacterTerms(profile: CharacterProfile | undefined): string[] {
+  if (!profile) return [];
+  return [
+    profile.description,
+    profile.outfit && `wearing ${profile.outfit}`,
+    profile.palette && `signature colors ${profile.palette}`,
+  ].filter(Boolean);
+}
+
+/** System prompt instruction for the selected profile; empty when none is selected */
+export function getCharacterInstruction(profile: CharacterProfile | undefined): string {
+  if (!profile) return "";
+  const forbidden = getForbiddenTraits(profile);
+  return [
+    `IMPORTANT: The main subject is the recurring original character "${profile.name}". Describe them by appearance in every prompt, never by name alone, and keep these details exactly the same regardless of style or variation:`,
+    `- Appearance: ${profile.description}`,
+    profile.outfit && `- Outfit: ${profile.outfit}`,
+    profile.palette && `- Color palette: ${profile.palette}`,
+    forbidden.length > 0 && `- NEVER show them with: ${forbidden.join(", ")}. Where a negative prompt is requested, include these there too.`,
+    "The user's idea decides what the character does and where; it does not change who they are.",
+  ].filter(Boolean).join("\n");
+}
@@ -0,0 +1,144 @@
+/**
+ * Framing - aspect ratio, resolution and camera controls
+ *
+ * The options next to the background selector. Each choice is written into
+ * the system instructions the same way a background style is, so the model
+ * describes the frame explicitly, and is recorded with the result. The aspect
+ * ratio also becomes Midjourney's --ar. "none" (or a missing field) leaves the
+ * choice to the model.
+ */
+
+export interface FramingOptions {
+  aspectRatio?: string; // Option id, e.g. "16:9"
+  resolution?: string;
+  shotSize?: string;
+  cameraAngle?: string;
+  lens?: string;
+}
+
+export type FramingField = keyof FramingOptions;
+
+export interface FramingOption {
+  id: string;
+  label: string;
+  term: string; // Phrase the prompt should contain
+}
+
+interface AspectRatioOption extends FramingOption {
+  ar: string; // Midjourney only takes whole numbers
+}
+
+export const aspectRatios: AspectRatioOption[] = [
+  { id: "1:1", label: "1:1 Square", term: "square 1:1 composition", ar: "1:1" },
+  { id: "4:5", label: "4:5 Portrait", term: "vertical 4:5 portrait composition", ar: "4:5" },
+  { id: "2:3", label: "2:3 Portrait", term: "vertical 2:3 composition", ar: "2:3" },
+  { id: "3:2", label: "3:2 Landscape", term: "3:2 landscape composition", ar: "3:2" },
+  { id: "4:3", label: "4:3 Classic", term: "4:3 composition", ar: "4:3" },
+  { id: "16:9", label: "16:9 Widescreen", term: "16:9 widescreen composition", ar: "16:9" },
+  { id: "9:16", label: "9:16 Vertical", term: "vertical 9:16 full-screen composition", ar: "9:16" },
+  { id: "21:9", label: "21:9 Ultrawide", term: "21:9 ultrawide composition", ar: "21:9" },
+  { id: "2.39:1", label: "2.39:1 Anamorphic", term: "2.39:1 anamorphic cinemascope framing", ar: "239:100" },
+];
+
+export const resolutions: FramingOption[] = [
+  { id: "hd", label: "HD (1080p)", term: "full HD 1080p resolution" },
+  { id: "2k", label: "2K", term: "2K resolution" },
+  { id: "4k", label: "4K", term: "4K ultra HD resolution" },
+  { id: "8k", label: "8K", term: "8K resolution, extremely fine detail" },
+];
+
+export const shotSizes: FramingOption[] = [
+  { id: "extreme-close-up", label: "Extreme Close-Up", term: "extreme close-up shot" },
+  { id: "close-up", label: "Close-Up", term: "close-up shot, head and shoulders" },
+  { id: "medium-close-up", label: "Medium Close-Up", term: "medium close-up shot, chest up" },
+  { id: "medium", label: "Medium Shot", term: "medium shot, waist up" },
+  { id: "cowboy", label: "Cowboy Shot", term: "cowboy shot, mid-thigh up" },
+  { id: "full", label: "Full Shot", term: "full body shot, head to toe in frame" },
+  { id: "wide", label: "Wide Shot", term: "wide shot, subject small within the surroundings" },
+  { id: "extreme-wide", label: "Extreme Wide", term: "extreme wide establishing shot" },
+];
+
+export const cameraAngles: FramingOption[] = [
+  { id: "eye-level", label: "Eye Level", term: "eye-level camera angle" },
+  { id: "low-angle", label: "Low Angle", term: "low angle shot looking up" },
+  { id: "high-angle", label: "High Angle", term: "high angle shot looking down" },
+  { id: "overhead", label: "Overhead / Top-Down", term: "overhead top-down view" },
+  { id: "worms-eye", label: "Worm's-Eye", term: "worm's-eye view from ground level" },
+  { id: "dutch", label: "Dutch Angle", term: "dutch angle, tilted horizon" },
+  { id: "over-shoulder", label: "Over the Shoulder", term: "over-the-shoulder shot" },
+  { id: "aerial", label: "Aerial / Drone", term: "aerial drone view" },
+];
+
+export const lenses: FramingOption[] = [
+  { id: "fisheye", label: "Fisheye (8mm)", term: "8mm fisheye lens, strong barrel distortion" },
+  { id: "14mm", label: "Ultra Wide (14mm)", term: "14mm ultra wide-angle lens" },
+  { id: "24mm", label: "Wide (24mm)", term: "24mm wide-angle lens" },
+  { id: "35mm", label: "35mm", term: "35mm lens, natural perspective" },
+  { id: "50mm", label: "Standard (50mm)", term: "50mm standard lens" },
+  { id: "85mm", label: "Portrait (85mm)", term: "85mm portrait lens, shallow depth of field" },
+  { id: "135mm", label: "Telephoto (135mm)", term: "135mm telephoto lens, compressed background" },
+  { id: "macro", label: "Macro (100mm)", term: "100mm macro lens, extreme close focus" },
+];
+
+// Order the choices are written in, from frame shape to glass
+export const framingFields: { field: FramingField; label: string; options: FramingOption[] }[] = [
+  { field: "aspectRatio", label: "Aspect Ratio", options: aspectRatios },
+  { field: "resolution", label: "Resolution", options: resolutions },
+  { field: "shotSize", label: "Shot Size", options: shotSizes },
+  { field: "cameraAngle", label: "Camera Angle", options: cameraAngles },
+  { field: "lens", label: "Lens", options: lenses },
+];
+
+function findOption(field: FramingField, id: string | undefined): FramingOption | undefined {
+  return id ? framingFields.find((f) => f.field === field)?.options.find((o) => o.id === id) : undefined;
+}
+
+/** Only known option ids; anything else (including "none") is dropped */
+export function sanitizeFraming(value: unknown): FramingOptions {
+  const framing: FramingOptions = {};
+  if (!value || typeof value !== "object") return framing;
+  for (const { field } of framingFields) {
+    const id = (value as Record<string, unknown>)[field];
+    if (typeof id === "string" && findOption(field, id)) {
+      framing[field] = id;
+    }
+  }
+  return framing;
+}
+
+export function hasFraming(framing: FramingOptions | undefined): boolean {
+  return !!framing && framingFields.some(({ field }) => findOption(field, framing[field]));
+}
+
+/** Phrases for the chosen options, in framingFields order */
+export function getFramingTerms(framing: FramingOptions | undefined): string[] {
+  if (!framing) return [];
+  return framingFields
+    .map(({ field }) => findOption(field, framing[field])?.term)
+    .filter((term): term is string => !!term);
+}
+
+/** System prompt instruction for the chosen options; empty when nothing is set */
+export function getFramingInstruction(framing: FramingOptions | undefined): string {
+  const terms = getFramingTerms(framing);
+  if (terms.length === 0) return "";
+  return `IMPORTANT: Frame the shot exactly as follows: ${terms.join(", ")}. State this framing explicitly in the prompt and keep the composition, perspective and depth of field consistent with it.`;
+}
+
+/** Value for Midjourney --ar ("2.39:1" -> "239:100") */
+export function getAspectRatioParam(framing: FramingOptions | undefined): string | undefined {
+  return aspectRatios.find((option) => option.id === framing?.aspectRatio)?.ar;
+}
+
+/** "16:9 · Medium Shot · 85mm" for badges and exports */
+export function describeFraming(framing: FramingOptions | undefined): string {
+  if (!framing) return "";
+  return framingFields
+    .map(({ field }) => {
+      const option = findOption(field, framing[field]);
+      // Aspect ratios read best as the bare ratio
+      return field === "aspectRatio" ? option?.id : option?.label;
+    })
+    .filter(Boolean)
+    .join(" · ");
+}
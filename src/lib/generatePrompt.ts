@@ -1,15 +1,25 @@
-import { ApiProvider, providerEndpoints } from "@/hooks/useApiKey";
-import { getPromptTemplate } from "./promptTemplates";
+import { ApiProvider, TokenUsage, ChatTurn, CompletionResult, ProviderAdapter, ProviderRequest, getProviderAdapter } from "./providerAdapters";
+import { getPromptTemplate, getEnhanceTemplate, getTemplateKey, takesNegativePrompt, getStyleNegatives } from "./promptTemplates";
 import { sanitizePromptForIP } from "./ipFilter";
 import { 
   sanitizeInput, 
   sanitizeApiKey, 
   sanitizeCustomBaseUrl,
+  sanitizeLocalBaseUrl,
   sanitizeModelName,
   apiRateLimiter,
   validateContentType,
   INPUT_LIMITS 
 } from "./sanitize";
+import { requestScheduler, delay, DEFAULT_CONCURRENCY_LIMITS } from "./requestScheduler";
+import { formatForPlatform, targetPlatforms, TargetPlatform } from "./platformFormatters";
+import { extractKeyPhrases, findMissingPhrases } from "./keyPhrases";
+import { ReferenceImage, REFERENCE_IMAGE_IDEA, isValidReferenceImage } from "./referenceImage";
+import { jaccardSimilarity, DEFAULT_SIMILARITY_THRESHOLD } from "./similarity";
+import { lintPrompt, isLintablePromptType, getTemplateVocabulary, PromptLintResult } from "./promptLinter";
+import { detectLanguage, InputLanguage, OutputLanguage, LANGUAGE_NAMES, DEFAULT_OUTPUT_LANGUAGE } from "./languageDetect";
+import { FramingOptions, sanitizeFraming, hasFraming, getFramingInstruction, getAspectRatioParam } from "./framing";
+import { CharacterProfile, sanitizeCharacterProfile, getCharacterInstruction } from "./characters";
 
 // ============================================================================
 // PROMPT LENGTH CONFIGURATION
@@ -180,6 +190,26 @@ function meetsWordCount(text: string, targetWords: number): boolean {
   return actualWords >= minRequired;
 }
 
+/**
+ * Follow-up instruction sent after an incomplete response. The partial output
+ * is replayed as the model's own turn, so we only ask it to keep going.
+ */
+function getContinuationInstruction(partial: string, targetWords: number): string {
+  const validatedLength = validatePromptLength(targetWords);
+  const written = countWords(partial);
+  return `Your previous response stopped before it was finished (${written} of ${validatedLength} words). Continue EXACTLY where it stopped. Do NOT repeat anything already written, do NOT restart, NO introductions or explanations. Output ONLY the continuation text, keep the same single-line style, write about ${Math.max(validatedLength - written, 10)} more words and end with a complete sentence.`;
+}
+
+/**
+ * Follow-up turn for a refinement. The prompt being refined is replayed as the
+ * model's own answer right before this, so "remove the dog" has a referent.
+ */
+function getRefinementInstruction(instruction: string, targetWords: number): string {
+  const validatedLength = validatePromptLength(targetWords);
+  return `Revise the prompt you just wrote: ${instruction}
+Apply ONLY this change and keep every other detail that was not mentioned. Output the COMPLETE revised prompt (about ${validatedLength} words) as a single line, with NO explanation and NO list of changes.`;
+}
+
 /**
  * Get length-specific system prompt instructions based on target word count
  * @param targetWords - Target word count (10-500)
@@ -231,17 +261,197 @@ interface GenerateOptions {
   baseUrl?: string;
   creativity?: number; // 1-5 scale
   backgroundStyle?: string; // Background style option
+  framing?: FramingOptions; // Aspect ratio, resolution, shot size, camera angle and lens
+  character?: CharacterProfile; // Recurring subject every prompt must describe the same way
   promptLength?: number; // Target word count (10-500), default: 300
+  signal?: AbortSignal; // Cancels the underlying fetch (and stream) when aborted
+  fallbacks?: ProviderFallback[]; // Tried in order when the provider returns 429/5xx
+  concurrencyLimits?: Partial<Record<ApiProvider, number>>; // Max parallel requests per provider
+  ideaIndex?: number; // Position of userInput among the batch's ideas, copied onto the result
+  targetPlatform?: TargetPlatform; // Output syntax applied after parsePrompt (default: generic)
+  structuredOutput?: boolean; // Ask for JSON fields where the provider supports a schema
+  refinements?: RefinementTurn[]; // Follow-up turns replayed after the original request, oldest first
+  mode?: PromptMode; // "enhance" treats each input line as an existing prompt to upgrade
+  preservePhrases?: boolean; // Enhance only: keep the input's key phrases verbatim (default: true)
+  image?: ReferenceImage; // Image-to-prompt: sent to the model with the first user turn; userInput becomes optional notes
+  avoidPrompts?: string[]; // Earlier variations this one must clearly differ from (near-duplicate retry)
+  outputLanguage?: OutputLanguage; // Language of the prompt when the idea is not in English (default: english)
+}
+
+/** "generate" expands a loose idea; "enhance" upgrades a prompt the user already has */
+export type PromptMode = "generate" | "enhance";
+
+/** One step of a refinement thread: the prompt as it was and what the user asked to change */
+export interface RefinementTurn {
+  prompt: string;
+  instruction: string; // e.g. "make it night time, remove the dog"
+}
+
+// Text mode: the model puts the English idea on its own line before the prompt
+const TRANSLATED_IDEA_PATTERN = /^[ \t]*TRANSLATED IDEA:[ \t]*(.*)(?:\r?\n|$)/im;
+
+/** Pull the "TRANSLATED IDEA:" line out of a response, wherever the model put it */
+function splitTranslatedIdea(text: string): { text: string; translatedIdea?: string } {
+  const match = TRANSLATED_IDEA_PATTERN.exec(text);
+  if (!match) {
+    return { text };
+  }
+  return {
+    text: `${text.slice(0, match.index)}${text.slice(match.index + match[0].length)}`,
+    translatedIdea: match[1].trim() || undefined,
+  };
+}
+
+// Text mode: the model adds "Negative prompt: a, b, c" after the prompt (same line or its own)
+const NEGATIVE_PROMPT_PATTERN = /\bnegative prompt\s*:[ \t]*([^\r\n]*)/i;
+
+/** Pull the "Negative prompt:" line out of a response; text after that line stays */
+function splitNegativePromptLine(text: string): { text: string; negativePrompt?: string } {
+  const match = NEGATIVE_PROMPT_PATTERN.exec(text);
+  if (!match) {
+    return { text };
+  }
+  return {
+    text: `${text.slice(0, match.index)}${text.slice(match.index + match[0].length)}`,
+    negativePrompt: match[1].trim() || undefined,
+  };
+}
+
+// Most terms in a negative prompt built locally when the model wrote none
+const FALLBACK_NEGATIVE_TERMS = 16;
+
+/**
+ * Negative prompt for an image type from what breaks its style plus its
+ * template's "avoid" list. Undefined for types without a negative prompt.
+ */
+export function getFallbackNegativePrompt(promptType: string): string | undefined {
+  if (!takesNegativePrompt(promptType)) return undefined;
+  // Templates without an "avoid" list borrow the general image template's defects
+  const defects = getTemplateVocabulary(getTemplateKey(promptType)).negative;
+  const terms = [...getStyleNegatives(promptType), ...(defects.length > 0 ? defects : getTemplateVocabulary("image").negative)];
+  const unique = [...new Set(terms.map((term) => term.toLowerCase()))].slice(0, FALLBACK_NEGATIVE_TERMS);
+  return unique.length > 0 ? unique.join(", ") : undefined;
+}
+
+// Older refinement turns are dropped from the request; the latest prompt already contains them
+const MAX_REFINEMENT_TURNS = 4;
+
+// Near-duplicate handling: one extra request per slot at most, quoting a few
+// shortened siblings so the "differ from these" hint stays cheap
+const MAX_DIVERSITY_RETRIES = 1;
+const MAX_AVOID_PROMPTS = 3;
+const AVOID_PROMPT_WORDS = 60;
+
+/**
+ * Split the input into separate ideas, one per non-empty line.
+ * Input without line breaks is a single idea.
+ */
+export function splitIdeas(input: string): string[] {
+  return input.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+/** A finished, cleaned and IP-filtered prompt plus how it was produced */
+export interface GeneratedPrompt {
+  text: string;
+  attempts: number; // 1 = first response was complete; more = continuation follow-ups
+  incomplete: boolean; // Still truncated or below the word target after MAX_RETRIES
+  wordCount: number;
+  negativePrompt?: string; // Image types always get one: the model's, else built from the style; SD gets a default
+  styleTags?: string[]; // Structured output only
+  subject?: string; // Structured output only
+  structured: boolean; // True when the fields came from a JSON response rather than text scraping
+  usage?: TokenUsage; // Undefined when the provider didn't report token counts
+  platform: TargetPlatform;
+  mode: PromptMode;
+  keyPhrases?: string[]; // Enhance only: phrases the model was told to keep verbatim
+  missingPhrases?: string[]; // Enhance only: key phrases that did not survive
+  referenceImage?: string; // File name of the image the prompt was derived from
+  diversityRetries?: number; // Times the batch regenerated this slot for being too close to a sibling
+  inputLanguage?: InputLanguage; // Detected language of the idea, when it could be told
+  translatedIdea?: string; // English version of a non-English idea, as written by the model
+  lint?: PromptLintResult; // Image/video types only: coverage score and style contradictions
+  idea: string; // The single idea (input line) this prompt was generated from; the original prompt in enhance mode
+  ideaIndex: number; // 0-based line number among the non-empty input lines
+  provider: ApiProvider | "offline"; // Provider that actually produced the text (may be a fallback); "offline" for the local composer
+  fallbackFrom?: ApiProvider; // Provider the request was made for, when the fallback chain had to move past it
+  model: string; // Resolved model id, including the provider default when none was selected
+  seed?: number; // Offline composer only: reproduces the prompt for the same idea and settings
+  framing?: FramingOptions; // Framing choices the prompt was written for; absent when all were left to the model
+  character?: string; // Name of the character profile the prompt was written for
+  characterId?: string; // Id of that profile, which survives renames
+}
+
+/** One entry in the fallback chain, tried in order after the primary provider */
+export interface ProviderFallback {
+  provider: ApiProvider;
+  apiKey: string;
+  model: string; // Empty string uses the provider's default model
+  baseUrl?: string; // Required for custom, optional for local
+}
+
+/** Provider HTTP error that keeps the status code so callers can decide whether to fall back */
+export class ProviderRequestError extends Error {
+  constructor(message: string, public provider: ApiProvider, public status: number) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+/** Rate limits (429) and server errors (5xx) are worth retrying on another provider */
+export function isRetryableProviderError(error: unknown): boolean {
+  return error instanceof ProviderRequestError && (error.status === 429 || error.status >= 500);
+}
+
+/** Slot counts for a running batch; queued slots are waiting for a concurrency slot */
+export interface BatchProgress {
+  queued: number;
+  running: number;
+  done: number; // Finished, failed or cancelled
+  total: number;
 }
 
 interface BatchGenerateOptions extends GenerateOptions {
-  batchSize: number;
-  onProgress?: (completed: number, total: number) => void;
-  onPromptReady?: (prompt: string, index: number) => void;
+  batchSize: number; // Variations per idea; each non-empty line of userInput is its own idea
+  onProgress?: (progress: BatchProgress) => void;
+  onPromptReady?: (prompt: GeneratedPrompt, index: number) => void;
+  onToken?: (index: number, delta: string) => void; // Raw streamed text, before parsePrompt/IP filter
+  onPromptFailed?: (error: Error, index: number) => void;
+  onPromptCancelled?: (index: number) => void; // Slot stopped via signal, not counted as a failure
+  onFallback?: (index: number, from: ApiProvider, to: ApiProvider) => void; // Slot restarts on the next provider
+  similarityThreshold?: number; // Jaccard score (0-1) that triggers a diversity retry; 0 disables it
+  onDiversityRetry?: (index: number, similarity: number) => void; // Slot restarts with a "differ from these" hint
+}
+
+/**
+ * True when an error comes from an aborted request (AbortController.abort()),
+ * as opposed to a provider or network failure.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException("Generation cancelled", "AbortError");
+  }
+}
+
+/**
+ * Block until the per-tab rate limiter allows another call for this provider.
+ */
+async function waitForRateLimit(provider: ApiProvider, signal?: AbortSignal): Promise<void> {
+  while (!apiRateLimiter.isAllowed(provider)) {
+    const waitMs = apiRateLimiter.msUntilAllowed(provider);
+    if (import.meta.env.DEV) {
+      console.log(`[generatePrompt] ${provider} rate limit reached, waiting ${waitMs}ms`);
+    }
+    // +50ms so the oldest call has definitely left the window
+    await delay(waitMs + 50, signal);
+  }
 }
 
 // Background style instructions for prompt generation
-const backgroundInstructions: Record<string, string> = {
+export const backgroundInstructions: Record<string, string> = {
   "none": "",
   "pure-white": "IMPORTANT: The image MUST have a pure white background (#FFFFFF), clean white backdrop, isolated subject on white, product photography style white background, no shadows on background, pristine white environment.",
   "pure-green": "IMPORTANT: The image MUST have a chroma key green screen background (#00FF00), solid bright green backdrop for compositing, VFX green screen, keying-ready green background, no spill, even green lighting.",
@@ -255,7 +465,7 @@ const backgroundInstructions: Record<string, string> = {
 // Map creativity level (1-5) to temperature, top_p, top_k
 // NOTE: For long-form content with Gemini, use lower temperatures to prevent 
 // early truncation caused by repetition loops that trigger MAX_TOKENS
-function getCreativityParams(creativity: number = 3, isLongForm: boolean = false) {
+export function getCreativityParams(creativity: number = 3, isLongForm: boolean = false) {
   const level = Math.max(1, Math.min(5, creativity));
   
   // Long-form content needs lower temperature to ensure complete output
@@ -278,76 +488,132 @@ function getCreativityParams(creativity: number = 3, isLongForm: boolean = false
   return params[level as keyof typeof params];
 }
 
-// Get creativity params formatted for specific provider
-// isLongForm: true for prompts >= 300 words (uses lower temp for Gemini stability)
-function getCreativityParamsForProvider(creativity: number = 3, provider: ApiProvider, isLongForm: boolean = false) {
-  const base = getCreativityParams(creativity, isLongForm && provider === "gemini");
-  
-  if (provider === "gemini") {
-    // Gemini uses camelCase and different param names
-    // For long-form content, we use lower temperature (already handled in getCreativityParams)
-    // Adding topK and candidateCount for better output control
-    return {
-      temperature: base.temperature,
-      topP: base.top_p,
-      topK: base.top_k, // Re-enabled - supported in gemini-2.0-flash and 2.5-flash
-      candidateCount: 1, // Single focused response reduces truncation issues
-    };
-  }
-  
-  // OpenAI, Groq, OpenRouter use snake_case
-  return {
-    temperature: base.temperature,
-    top_p: base.top_p,
-    // top_k is not standard in OpenAI API, only some providers support it
-  };
+export type { TokenUsage };
+
+/** Add up usage; returns undefined when none of the entries reported any */
+export function sumTokenUsage(usages: (TokenUsage | undefined)[]): TokenUsage | undefined {
+  const reported = usages.filter((u): u is TokenUsage => !!u);
+  if (reported.length === 0) return undefined;
+  return reported.reduce(
+    (sum, u) => ({
+      inputTokens: sum.inputTokens + u.inputTokens,
+      outputTokens: sum.outputTokens + u.outputTokens,
+      totalTokens: sum.totalTokens + u.totalTokens,
+    }),
+    { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  );
 }
 
-// Build request for Gemini API (uses different format)
-function buildGeminiRequest(
-  model: string, 
-  systemPrompt: string, 
-  userContent: string, 
-  creativity: number
-) {
-  const creativityParams = getCreativityParamsForProvider(creativity, "gemini");
-  
-  return {
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: `${systemPrompt}\n\n${userContent}` }]
-      }
-    ],
-    generationConfig: {
-      ...creativityParams,
-      maxOutputTokens: 500,
-    },
-    systemInstruction: {
-      parts: [{ text: systemPrompt }]
+// ============================================================================
+// STRUCTURED OUTPUT
+// ============================================================================
+
+/** Providers with a native JSON-schema mode; everyone else falls back to parsePrompt */
+export function supportsStructuredOutput(provider: ApiProvider): boolean {
+  return getProviderAdapter(provider).supportsStructuredOutput;
+}
+
+export interface StructuredPromptFields {
+  prompt: string;
+  negativePrompt?: string;
+  styleTags: string[];
+  subject?: string;
+  translatedIdea?: string;
+}
+
+// OpenAI strict mode needs every property listed as required; the Gemini
+// adapter converts this to its own schema subset
+const PROMPT_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    prompt: { type: "string", description: "The complete generation prompt" },
+    negativePrompt: { type: "string", description: "Comma-separated things to avoid" },
+    styleTags: { type: "array", items: { type: "string" }, description: "3-8 short style keywords" },
+    subject: { type: "string", description: "The main subject in a few words" },
+    translatedIdea: { type: "string", description: "The user's idea in English, empty if it was already English" },
+  },
+  required: ["prompt", "negativePrompt", "styleTags", "subject", "translatedIdea"],
+  additionalProperties: false,
+};
+
+const STRUCTURED_OUTPUT_INSTRUCTION = `
+
+RESPONSE FORMAT (OVERRIDES THE OUTPUT RULES ABOVE):
+Return a JSON object with these fields:
+- "prompt": the full prompt text, following every content, length and IP rule above
+- "negativePrompt": comma-separated things the image should avoid (empty string if not applicable)
+- "styleTags": 3-8 short style keywords
+- "subject": the main subject in a few words
+- "translatedIdea": the user's idea translated to English (empty string if it was already English)`;
+
+/**
+ * Read the JSON envelope of a structured response. A response cut off by the
+ * token limit is not valid JSON, so the prompt field is salvaged by pattern.
+ * Returns null when there is no usable prompt at all.
+ */
+export function parseStructuredPrompt(text: string): StructuredPromptFields | null {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  try {
+    const data = JSON.parse(json);
+    if (data && typeof data.prompt === "string" && data.prompt.trim()) {
+      return {
+        prompt: data.prompt,
+        negativePrompt: typeof data.negativePrompt === "string" && data.negativePrompt.trim() ? data.negativePrompt.trim() : undefined,
+        styleTags: Array.isArray(data.styleTags)
+          ? data.styleTags.filter((tag: unknown): tag is string => typeof tag === "string" && !!tag.trim()).map((tag: string) => tag.trim())
+          : [],
+        subject: typeof data.subject === "string" && data.subject.trim() ? data.subject.trim() : undefined,
+        translatedIdea: typeof data.translatedIdea === "string" && data.translatedIdea.trim() ? data.translatedIdea.trim() : undefined,
+      };
     }
-  };
+  } catch {
+    // Truncated or not JSON, try to salvage below
+  }
+
+  const match = /"prompt"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(json);
+  if (!match || !match[1].trim()) {
+    return null;
+  }
+  let prompt = match[1];
+  try {
+    prompt = JSON.parse(`"${prompt.replace(/\\$/, "")}"`);
+  } catch {
+    // Keep the escaped text; parsePrompt cleans up what's left
+  }
+  return { prompt, styleTags: [] };
 }
 
-// Build request for OpenAI-compatible APIs
-function buildOpenAIRequest(
-  model: string,
-  systemContent: string,
-  userContent: string,
-  creativity: number,
-  provider: ApiProvider
-) {
-  const creativityParams = getCreativityParamsForProvider(creativity, provider);
-  
-  return {
-    model,
-    messages: [
-      { role: "system", content: systemContent },
-      { role: "user", content: userContent },
-    ],
-    max_tokens: 500,
-    ...creativityParams,
-  };
+/**
+ * Base URL for a provider's API without a trailing slash. Custom providers
+ * need an HTTPS URL and local servers a loopback one; hosted providers always
+ * use their adapter's default. Throws with a user-facing message otherwise.
+ */
+export function resolveProviderBaseUrl(provider: ApiProvider, customBaseUrl?: string): string {
+  const adapter = getProviderAdapter(provider);
+
+  if (adapter.baseUrlPolicy === "custom") {
+    if (!customBaseUrl) {
+      throw new Error("Base URL is required for custom provider");
+    }
+    // Validate and sanitize custom URL
+    const sanitizedUrl = sanitizeCustomBaseUrl(customBaseUrl);
+    if (!sanitizedUrl) {
+      throw new Error("Invalid custom base URL. Must be a valid HTTPS URL.");
+    }
+    return sanitizedUrl.replace(/\/+$/, "");
+  }
+
+  if (adapter.baseUrlPolicy === "local") {
+    // Plain HTTP is allowed here, but only to loopback hosts
+    const sanitizedUrl = sanitizeLocalBaseUrl(customBaseUrl || adapter.defaultBaseUrl);
+    if (!sanitizedUrl) {
+      throw new Error("Invalid local server URL. Must point to localhost or 127.0.0.1.");
+    }
+    return sanitizedUrl.replace(/\/+$/, "");
+  }
+
+  return adapter.defaultBaseUrl;
 }
 
 // Single prompt generation with security validation
@@ -361,34 +627,44 @@ async function generateSinglePrompt({
   variationIndex,
   creativity = 3,
   backgroundStyle = "none",
+  framing,
+  character,
   promptLength = DEFAULT_PROMPT_LENGTH,
-}: GenerateOptions & { variationIndex: number; creativity?: number; backgroundStyle?: string; promptLength?: number }): Promise<string> {
+  onToken,
+  signal,
+  ideaIndex = 0,
+  targetPlatform = "generic",
+  structuredOutput = false,
+  refinements = [],
+  mode = "generate",
+  preservePhrases = true,
+  image,
+  avoidPrompts = [],
+  outputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+}: GenerateOptions & { variationIndex: number; creativity?: number; backgroundStyle?: string; promptLength?: number; onToken?: (delta: string) => void }): Promise<GeneratedPrompt> {
   // ========================================
   // SECURITY: Input validation and sanitization
   // ========================================
-  
-  // Rate limiting check
-  if (!apiRateLimiter.isAllowed(provider)) {
-    throw new Error('Rate limit exceeded. Please wait before making more requests.');
-  }
 
-  // Sanitize user input
+  // Sanitize user input (generateWithFallback rejected empty input before queueing)
   const sanitizedUserInput = sanitizeInput(userInput, INPUT_LIMITS.USER_INPUT);
-  if (!sanitizedUserInput.trim()) {
-    throw new Error('User input is required and cannot be empty after sanitization');
-  }
+
+  const adapter = getProviderAdapter(provider);
 
   // Validate and sanitize API key (don't log it)
   const sanitizedApiKey = provider !== 'custom' 
-    ? sanitizeApiKey(apiKey, provider as Exclude<ApiProvider, 'custom'>)
+    ? sanitizeApiKey(apiKey, provider)
     : apiKey;
   
-  if (!sanitizedApiKey) {
+  // Local servers (Ollama, LM Studio) usually run without authentication
+  if (!sanitizedApiKey && adapter.requiresKey) {
     throw new Error('Invalid API key format');
   }
 
   // Sanitize model name
   const sanitizedModel = sanitizeModelName(model);
+  // For long Gemini prompts this prefers gemini-2.5-flash (65K tokens) over 2.0-flash (8K tokens)
+  const resolvedModel = sanitizedModel || adapter.getDefaultModel(promptLength);
 
   // Sanitize prompt type
   const sanitizedPromptType = sanitizeInput(promptType, 100);
@@ -396,6 +672,21 @@ async function generateSinglePrompt({
   // Get background instruction
   const bgInstruction = backgroundInstructions[backgroundStyle] || "";
 
+  // Get framing instruction (unknown option ids are dropped)
+  const sanitizedFraming = sanitizeFraming(framing);
+  const framingInstruction = getFramingInstruction(sanitizedFraming);
+
+  // Get character instruction (a profile without a name or description is ignored)
+  const sanitizedCharacter = sanitizeCharacterProfile(character) ?? undefined;
+  const characterInstruction = getCharacterInstruction(sanitizedCharacter);
+
+  // Don't ask for more words than the target platform will read
+  const platformConfig = targetPlatforms[targetPlatform] ?? targetPlatforms.generic;
+  if (platformConfig.maxWords && promptLength > platformConfig.maxWords) {
+    promptLength = platformConfig.maxWords;
+  }
+  const platformInstruction = platformConfig.instruction ? `\n${platformConfig.instruction}\n` : "";
+
   // Get prompt length configuration
   const maxTokens = calculateMaxTokens(promptLength);
   
@@ -404,29 +695,87 @@ async function generateSinglePrompt({
     console.log(`[generatePrompt] promptLength: ${promptLength}, maxTokens: ${maxTokens}, provider: ${provider}`);
   }
 
-  const systemPrompt = getPromptTemplate(sanitizedPromptType, sanitizedUserInput);
-  
-  let baseUrl: string;
+  const isEnhance = mode === "enhance";
+  const keyPhrases = isEnhance && preservePhrases ? extractKeyPhrases(sanitizedUserInput) : [];
+  // The style template still shapes the result; the image takes the place of the idea
+  // (a regenerate passes the placeholder idea back in, which is not a note)
+  const imageNotes = sanitizedUserInput.trim() === REFERENCE_IMAGE_IDEA ? "" : sanitizedUserInput.trim();
+  const ideaText = image
+    ? `${REFERENCE_IMAGE_IDEA}${imageNotes ? ` (${imageNotes})` : ""}`
+    : sanitizedUserInput;
+  const systemPrompt = isEnhance
+    ? getEnhanceTemplate(sanitizedPromptType, sanitizedUserInput, keyPhrases)
+    : getPromptTemplate(sanitizedPromptType, ideaText);
+  const avoidList = avoidPrompts
+    .slice(0, MAX_AVOID_PROMPTS)
+    .map((text) => sanitizeInput(text, INPUT_LIMITS.HISTORY_ITEM).split(/\s+/).slice(0, AVOID_PROMPT_WORDS).join(" "))
+    .filter(Boolean);
+  const diversityNote = avoidList.length > 0
+    ? `\nDIFFER FROM THESE: Other variations already look like the prompts below. Yours MUST take a clearly different direction - change the composition, setting details, lighting, mood and wording, not just a few adjectives - while keeping the same core concept:\n${avoidList.map((text, i) => `${i + 1}. ${text}`).join("\n")}\n`
+    : "";
+  const imageNote = image
+    ? `\nREFERENCE IMAGE: The user attached an image. Reverse-engineer it into a prompt that would recreate it: describe what is actually visible (subject, pose, setting, lighting, palette, composition, medium and rendering style). Follow the template's style requirement when it differs from the image. Do not identify real people and do not name characters, brands or artists you recognize - describe them generically.\n`
+    : "";
+
+  // Enhance leaves the language alone: translating would break the key phrases
+  const inputLanguage: InputLanguage = isEnhance ? "unknown" : detectLanguage(image ? imageNotes : sanitizedUserInput);
+  const isForeignIdea = inputLanguage !== "unknown" && inputLanguage !== "en";
+  const translateIdea = isForeignIdea && outputLanguage === "english";
+  // JSON is only requested for the first response; continuations are plain text
+  const useStructured = structuredOutput && adapter.supportsStructuredOutput;
+  const languageName = isForeignIdea ? LANGUAGE_NAMES[inputLanguage] : "";
+  const languageNote = !isForeignIdea
+    ? ""
+    : translateIdea
+    ? `\nLANGUAGE: The idea is written in ${languageName}. Write the final prompt in English. ${useStructured
+      ? 'Put the idea translated to English in "translatedIdea".'
+      : 'Before the prompt, write one line "TRANSLATED IDEA: <the idea translated to English>", then the prompt on the next line. This line is the only exception to the output rules.'}\n`
+    : `\nLANGUAGE: The idea is written in ${languageName}. Write the final prompt in ${languageName} too. Camera, lens and rendering terms with no common ${languageName} equivalent may stay in English.\n`;
+
+  // Image prompts come with a negative prompt written against their style (SD, SDXL and Flux read it)
+  const wantsNegative = takesNegativePrompt(sanitizedPromptType);
+  const styleNegatives = getStyleNegatives(sanitizedPromptType).slice(0, 4);
+  const negativeNote = wantsNegative
+    ? `\nNEGATIVE PROMPT: ${useStructured
+      ? 'In "negativePrompt", list'
+      : 'After the prompt, write "Negative prompt:" followed by'} 8-15 comma-separated things the image must not show: styles and artifacts that would break this particular look${styleNegatives.length > 0 ? ` (e.g. ${styleNegatives.join(", ")})` : ""}, then common defects (blurry, bad anatomy, watermark). Never put these terms in the prompt itself.${useStructured ? "" : " This line is an exception to the output rules."}\n`
+    : "";
+
+  const refinementTurns = refinements
+    .slice(-MAX_REFINEMENT_TURNS)
+    .map((turn) => ({
+      prompt: sanitizeInput(turn.prompt, INPUT_LIMITS.HISTORY_ITEM),
+      instruction: sanitizeInput(turn.instruction, INPUT_LIMITS.USER_INPUT),
+    }))
+    .filter((turn) => turn.prompt.trim() && turn.instruction.trim());
+  const refinementNote = refinementTurns.length > 0
+    ? `\nREFINEMENT: The user will ask for changes to a prompt you already wrote. Apply only the requested changes and keep the subject, style and all other details unless told otherwise. Every rule above still applies to the revised prompt.\n`
+    : "";
   
-  if (provider === "custom") {
-    if (!customBaseUrl) {
-      throw new Error("Base URL is required for custom provider");
-    }
-    // Validate and sanitize custom URL
-    const sanitizedUrl = sanitizeCustomBaseUrl(customBaseUrl);
-    if (!sanitizedUrl) {
-      throw new Error("Invalid custom base URL. Must be a valid HTTPS URL.");
-    }
-    baseUrl = sanitizedUrl.replace(/\/+$/, "");
-  } else {
-    baseUrl = providerEndpoints[provider].base;
-  }
+  const baseUrl = resolveProviderBaseUrl(provider, customBaseUrl);
 
   // Build the system instruction content
   // For longer prompts (300+), use STRONGER instructions with emphasis on not stopping
   const isLongPrompt = promptLength >= 300;
   
-  const systemContent = isLongPrompt 
+  const systemContent = isEnhance
+    ? `You are an expert prompt engineer improving a prompt the user already wrote.${variationIndex > 0 ? ` This is enhancement #${variationIndex + 1} - word the improvements differently from other versions, but keep the same subject.` : ""}
+
+PROMPT LENGTH REQUIREMENT (CRITICAL):
+${getPromptLengthInstructions(promptLength)}
+
+OUTPUT RULES:
+- Output ONLY the enhanced prompt as a SINGLE continuous line
+- NO explanations, NO "Here is", NO list of changes, NO markdown, NO quotes around the prompt
+- Keep the original subject and copy every listed key phrase exactly as written
+
+IP SAFE: No real names, no copyrighted characters, no artist names, no brand names.
+${bgInstruction ? `BACKGROUND: ${bgInstruction}` : ''}
+${framingInstruction ? `FRAMING: ${framingInstruction}` : ''}
+${characterInstruction ? `CHARACTER: ${characterInstruction}` : ''}
+${platformInstruction}${imageNote}${languageNote}${negativeNote}${diversityNote}${refinementNote}
+START YOUR RESPONSE DIRECTLY WITH THE ENHANCED PROMPT.`
+    : isLongPrompt 
     ? `You are an expert prompt engineer. Generate variation #${variationIndex + 1}.
 
 ⚠️ CRITICAL: This prompt MUST be EXACTLY ${promptLength} words. DO NOT STOP EARLY.
@@ -454,7 +803,9 @@ CONTENT (cover ALL of these in detail):
 
 IP SAFE: No real names, no copyrighted characters, no artist names, no brand names.
 ${bgInstruction ? `BACKGROUND: ${bgInstruction}` : ''}
-
+${framingInstruction ? `FRAMING: ${framingInstruction}` : ''}
+${characterInstruction ? `CHARACTER: ${characterInstruction}` : ''}
+${platformInstruction}${imageNote}${languageNote}${negativeNote}${diversityNote}${refinementNote}
 START NOW with the prompt content (${promptLength} words required):`
     : `You are an expert prompt engineer. Generate a UNIQUE and CREATIVE prompt variation based on user input.
 This is variation #${variationIndex + 1} - make it distinctly different from other variations while keeping the core concept.
@@ -503,132 +854,107 @@ ${bgInstruction ? `
 BACKGROUND REQUIREMENT (CRITICAL - MUST INCLUDE):
 ${bgInstruction}
 Include this background specification prominently in your generated prompt.` : ''}
-
+${framingInstruction ? `
+FRAMING REQUIREMENT (CRITICAL - MUST INCLUDE):
+${framingInstruction}` : ''}
+${characterInstruction ? `
+CHARACTER REQUIREMENT (CRITICAL - SAME SUBJECT EVERY TIME):
+${characterInstruction}` : ''}
+${platformInstruction}${imageNote}${languageNote}${negativeNote}${diversityNote}${refinementNote}
 START YOUR RESPONSE DIRECTLY WITH THE PROMPT CONTENT.`;
 
-  let response: Response;
-  let rawPrompt: string;
-
-  if (provider === "gemini") {
-    // Gemini uses a different API format
-    // For long prompts, prefer gemini-2.5-flash (65K tokens) over 2.0-flash (8K tokens)
-    const modelName = sanitizedModel || getDefaultModel(provider, promptLength);
-    const geminiUrl = `${baseUrl}/models/${modelName}:generateContent?key=${sanitizedApiKey}`;
-    
-    // Use isLongForm to get appropriate creativity params for Gemini
-    // Long-form content uses lower temperature to prevent MAX_TOKENS truncation
-    const creativityParams = getCreativityParamsForProvider(creativity, "gemini", isLongPrompt);
-    
-    const requestBody = {
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: systemPrompt }]
-        }
-      ],
-      systemInstruction: {
-        parts: [{ text: systemContent }]
-      },
-      generationConfig: {
-        ...creativityParams,
-        maxOutputTokens: maxTokens,
-        // Note: stopSequences can help prevent incomplete outputs
-        // but we avoid adding them as they may cut off valid content
-      },
-    };
-    
-    // Debug: Log the full request (dev only)
-    if (import.meta.env.DEV) {
-      console.log(`[Gemini Request] URL: ${geminiUrl.replace(/key=.*$/, 'key=***')}`);
-      console.log(`[Gemini Request] generationConfig:`, requestBody.generationConfig);
-      console.log(`[Gemini Request] systemInstruction length: ${systemContent.length} chars`);
-      console.log(`[Gemini Request] user content length: ${systemPrompt.length} chars`);
-    }
-    
-    response = await fetch(geminiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
+  // Stream only when someone is listening for partial text. A JSON envelope
+  // is not worth showing half-written, so structured requests don't stream.
+  const stream = !!onToken && !useStructured;
+
+  /**
+   * Send one completion request. When `continueFrom` is given, the partial
+   * output is replayed as the assistant/model turn followed by a "continue"
+   * instruction, so the provider picks up where it stopped.
+   */
+  const requestCompletion = async (continueFrom?: string): Promise<CompletionResult> => {
+    const structured = useStructured && !continueFrom;
+    const requestSystemContent = structured ? `${systemContent}${STRUCTURED_OUTPUT_INSTRUCTION}` : systemContent;
+
+    // Turns after the original request: refinement follow-ups, then a continuation
+    const followUps: ChatTurn[] = [
+      ...refinementTurns.flatMap((turn) => [
+        { role: "assistant" as const, content: turn.prompt },
+        { role: "user" as const, content: getRefinementInstruction(turn.instruction, promptLength) },
+      ]),
+      ...(continueFrom ? [
+        { role: "assistant" as const, content: continueFrom },
+        { role: "user" as const, content: getContinuationInstruction(continueFrom, promptLength) },
+      ] : []),
+    ];
+
+    const request = adapter.buildRequest({
+      apiKey: sanitizedApiKey || "",
+      baseUrl,
+      model: resolvedModel,
+      systemContent: requestSystemContent,
+      userContent: systemPrompt,
+      image,
+      followUps,
+      maxTokens,
+      // Long-form content uses lower temperature where the provider needs it to avoid early truncation
+      sampling: getCreativityParams(creativity, isLongPrompt && adapter.longFormSampling),
+      responseSchema: structured ? { name: "generated_prompt", schema: PROMPT_JSON_SCHEMA } : undefined,
+      stream,
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(error.error?.message || `Gemini API error: ${response.status}`);
+    // Debug: Log the request (dev only, key redacted)
+    if (import.meta.env.DEV) {
+      console.log(`[${adapter.name} Request] URL: ${request.url.replace(/key=[^&]*/, 'key=***')}`);
+      console.log(`[${adapter.name} Request] system length: ${requestSystemContent.length} chars, user content length: ${systemPrompt.length} chars`);
     }
 
-    // Validate content type
-    const contentType = response.headers.get('content-type');
-    if (!validateContentType(contentType, 'application/json')) {
-      throw new Error('Invalid response content type from API');
-    }
+    const result = await sendCompletionRequest(adapter, request, { stream, onToken, signal });
 
-    const data = await response.json();
-    
-    // Check finishReason - this is critical for detecting truncation
-    const finishReason = data.candidates?.[0]?.finishReason;
-    const usageMetadata = data.usageMetadata;
-    
-    // Debug: Log the full Gemini response (dev only)
+    // Debug: Log the finish reason - this is critical for detecting truncation
     if (import.meta.env.DEV) {
-      console.log(`[Gemini Response] finishReason: ${finishReason}, usageMetadata:`, usageMetadata);
-      console.log(`[Gemini Response] Full candidate:`, JSON.stringify(data.candidates?.[0], null, 2));
-      
-      // Warn if MAX_TOKENS but output seems too short
-      if (finishReason === "MAX_TOKENS") {
-        const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-        console.warn(`[Gemini] MAX_TOKENS hit at ${outputTokens} tokens (limit: ${maxTokens})`);
-        if (outputTokens < maxTokens * 0.5) {
-          console.error(`[Gemini] ⚠️ OUTPUT TRUNCATED EARLY! Only ${outputTokens} tokens generated out of ${maxTokens} allowed. This is a known Gemini API issue.`);
-        }
+      console.log(`[${adapter.name} Response] finishReason: ${result.finishReason}, usage:`, result.usage);
+      const outputTokens = result.usage?.outputTokens ?? 0;
+      if (result.finishReason === "length" && outputTokens > 0 && outputTokens < maxTokens * 0.5) {
+        console.error(`[${adapter.name}] ⚠️ OUTPUT TRUNCATED EARLY! Only ${outputTokens} tokens generated out of ${maxTokens} allowed.`);
       }
     }
-    
-    // Gemini response format: { candidates: [{ content: { parts: [{ text: \"...\" }] } }] }
-    rawPrompt = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-  } else {
-    // OpenAI-compatible API (OpenAI, Groq, OpenRouter, Custom)
-    const creativityParams = getCreativityParamsForProvider(creativity, provider);
-    
-    response = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${sanitizedApiKey}`,
-      },
-      body: JSON.stringify({
-        model: sanitizedModel || getDefaultModel(provider),
-        messages: [
-          { role: "system", content: systemContent },
-          { role: "user", content: systemPrompt },
-        ],
-        max_tokens: maxTokens,
-        ...creativityParams,
-      }),
-    });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(error.error?.message || `${provider} API error: ${response.status}`);
-    }
+    return result;
+  };
 
-    // Validate content type
-    const contentType = response.headers.get('content-type');
-    if (!validateContentType(contentType, 'application/json')) {
-      throw new Error('Invalid response content type from API');
-    }
+  const targetWords = validatePromptLength(promptLength);
+  const first = await requestCompletion();
+  let rawPrompt = first.text;
+  let finishReason = first.finishReason;
+  const usages: (TokenUsage | undefined)[] = [first.usage];
+  let attempts = 1;
+
+  // Unwrap the JSON envelope so continuations and parsePrompt see plain prompt text
+  const structuredFields = useStructured ? parseStructuredPrompt(rawPrompt) : null;
+  if (structuredFields) {
+    rawPrompt = structuredFields.prompt;
+  } else if (useStructured && import.meta.env.DEV) {
+    console.warn(`[generatePrompt] Structured response could not be parsed, falling back to parsePrompt`);
+  }
 
-    const data = await response.json();
-    // OpenAI response format: { choices: [{ message: { content: "..." } }] }
-    rawPrompt = data.choices?.[0]?.message?.content || "";
-    
-    // Check finish_reason for OpenAI-compatible APIs
-    if (import.meta.env.DEV) {
-      const finishReason = data.choices?.[0]?.finish_reason;
-      console.log(`[OpenAI Response] finish_reason: ${finishReason}`);
-    }
+  // Take the translation line off before anything treats it as prompt text
+  let translatedIdea = structuredFields?.translatedIdea;
+  if (translateIdea) {
+    const split = splitTranslatedIdea(rawPrompt);
+    rawPrompt = split.text;
+    translatedIdea = translatedIdea || split.translatedIdea;
   }
+
+  // The "Negative prompt:" line comes off before parsePrompt would merge it into the prompt
+  let textNegative: string | undefined;
+  const takeNegativeLine = () => {
+    if (!wantsNegative) return;
+    const split = splitNegativePromptLine(rawPrompt);
+    rawPrompt = split.text;
+    textNegative = (split.negativePrompt && parsePrompt(split.negativePrompt).replace(/[.\s]+$/, "")) || textNegative;
+  };
+  takeNegativeLine();
   
   // Parse and clean the prompt, then apply IP filter
   let cleanedPrompt = parsePrompt(rawPrompt);
@@ -636,51 +962,228 @@ START YOUR RESPONSE DIRECTLY WITH THE PROMPT CONTENT.`;
   // ========================================
   // VALIDATION: Check for truncation and insufficient length
   // ========================================
-  const actualWordCount = countWords(cleanedPrompt);
-  const targetWords = validatePromptLength(promptLength);
-  const minRequired = Math.floor(targetWords * MIN_WORD_PERCENTAGE);
-  const promptIsTruncated = isTruncated(cleanedPrompt);
-  const promptTooShort = actualWordCount < minRequired;
-  
-  // Debug: Log validation results (dev only)
-  if (import.meta.env.DEV) {
-    console.log(`[Validation] Target: ${targetWords} words, Actual: ${actualWordCount} words, Min required: ${minRequired}`);
-    console.log(`[Validation] Truncated: ${promptIsTruncated}, Too short: ${promptTooShort}`);
-    if (promptIsTruncated) {
-      console.log(`[Validation] Last 50 chars: "...${cleanedPrompt.slice(-50)}"`);
+  // Incomplete output gets up to MAX_RETRIES "continue from here" follow-ups.
+  // The continuation is appended to what we already have (we paid for those
+  // tokens), so nothing the model wrote is ever thrown away.
+  while (true) {
+    const actualWordCount = countWords(cleanedPrompt);
+    const minRequired = Math.floor(targetWords * MIN_WORD_PERCENTAGE);
+    const promptIsTruncated = isTruncated(cleanedPrompt);
+    const promptTooShort = !meetsWordCount(cleanedPrompt, targetWords);
+    const hitTokenLimit = finishReason === "length";
+    
+    // Debug: Log validation results (dev only)
+    if (import.meta.env.DEV) {
+      console.log(`[Validation] Attempt ${attempts}: Target: ${targetWords} words, Actual: ${actualWordCount} words, Min required: ${minRequired}`);
+      console.log(`[Validation] Truncated: ${promptIsTruncated}, Too short: ${promptTooShort}, Token limit: ${hitTokenLimit}`);
+      if (promptIsTruncated) {
+        console.log(`[Validation] Last 50 chars: "...${cleanedPrompt.slice(-50)}"`);
+      }
     }
-  }
-  
-  // If prompt is truncated or too short, LOG WARNING but DO NOT remove content
-  if ((promptIsTruncated || promptTooShort) && targetWords >= 200) {
-    // Log warning - but KEEP the full AI response (we paid for those tokens!)
+
+    // isTruncated() is conservative (any missing final period counts), so for
+    // short comma-style prompts only trust it when the provider confirms a cut-off
+    const needsContinuation = hitTokenLimit || promptTooShort || (promptIsTruncated && targetWords >= 200);
+    if (!needsContinuation || attempts > MAX_RETRIES || !rawPrompt.trim()) {
+      break;
+    }
+
+    throwIfAborted(signal);
     if (import.meta.env.DEV) {
-      console.warn(`[Validation] ⚠️ INCOMPLETE OUTPUT DETECTED!`);
-      console.warn(`[Validation] Truncated: ${promptIsTruncated}, Words: ${actualWordCount}/${targetWords}`);
-      console.warn(`[Validation] Last 100 chars: "...${cleanedPrompt.slice(-100)}"`);
-      console.warn(`[Validation] This likely means the AI model stopped early. Consider:`);
-      console.warn(`[Validation] - Using a different model (e.g., gemini-2.5-flash for long prompts)`);
-      console.warn(`[Validation] - Reducing target word count`);
-      console.warn(`[Validation] - Lowering creativity level`);
-      console.warn(`[Validation] RETURNING FULL AI OUTPUT (not removing incomplete ending)`);
+      console.warn(`[Validation] ⚠️ INCOMPLETE OUTPUT DETECTED - requesting continuation (retry ${attempts}/${MAX_RETRIES})`);
     }
-    
-    // IMPORTANT: Do NOT remove content! Return what the AI generated.
-    // Users paid for these tokens - truncating further is wasteful.
-    // The incomplete ending is better than missing content.
+
+    const separator = /\s$/.test(rawPrompt) ? "" : " ";
+    onToken?.(separator);
+    const continuation = await requestCompletion(rawPrompt);
+    attempts++;
+    finishReason = continuation.finishReason;
+    usages.push(continuation.usage);
+    // The language note is still in the system prompt, so the line can come back
+    const continuationText = translateIdea ? splitTranslatedIdea(continuation.text).text : continuation.text;
+    rawPrompt = `${rawPrompt}${separator}${continuationText.replace(/^\s+/, "")}`;
+    takeNegativeLine();
+    cleanedPrompt = parsePrompt(rawPrompt);
   }
+
+  const incomplete = !meetsWordCount(cleanedPrompt, targetWords) ||
+    (isTruncated(cleanedPrompt) && targetWords >= 200);
   
   // Debug: Log raw vs cleaned prompt length (dev only)
   if (import.meta.env.DEV) {
     const rawWordCount = rawPrompt.split(/\s+/).filter(Boolean).length;
     const finalWordCount = countWords(cleanedPrompt);
-    console.log(`[parsePrompt] Raw words: ${rawWordCount}, Final words: ${finalWordCount}`);
+    console.log(`[parsePrompt] Raw words: ${rawWordCount}, Final words: ${finalWordCount}, Attempts: ${attempts}, Incomplete: ${incomplete}`);
     if (rawWordCount > finalWordCount + 10) {
       console.warn(`[parsePrompt] Significant word loss detected! Raw: "${rawPrompt.substring(0, 200)}..."`);
     }
   }
   
-  return sanitizePromptForIP(cleanedPrompt);
+  const prompt = sanitizePromptForIP(cleanedPrompt);
+  // Platform syntax goes on last so parsePrompt and the IP filter can't mangle it
+  const modelNegative = structuredFields?.negativePrompt ?? textNegative ?? getFallbackNegativePrompt(sanitizedPromptType);
+  const formatted = formatForPlatform(prompt, targetPlatform, {
+    rawText: rawPrompt,
+    creativity,
+    aspectRatio: getAspectRatioParam(sanitizedFraming),
+    negativePrompt: modelNegative,
+  });
+  const negativePrompt = formatted.negativePrompt ?? modelNegative;
+  return {
+    text: formatted.text,
+    negativePrompt: negativePrompt && sanitizePromptForIP(negativePrompt),
+    styleTags: structuredFields?.styleTags.map((tag) => sanitizePromptForIP(tag)).filter(Boolean),
+    subject: structuredFields?.subject && sanitizePromptForIP(structuredFields.subject),
+    structured: !!structuredFields,
+    usage: sumTokenUsage(usages),
+    platform: targetPlatform,
+    mode,
+    ...(keyPhrases.length > 0 && {
+      keyPhrases,
+      missingPhrases: findMissingPhrases(keyPhrases, formatted.text),
+    }),
+    ...(isLintablePromptType(promptType) && {
+      lint: lintPrompt(formatted.text, promptType, `${sanitizedUserInput} ${translatedIdea ?? ""}`),
+    }),
+    attempts,
+    incomplete,
+    wordCount: countWords(formatted.text),
+    idea: sanitizedUserInput.trim() || (image ? REFERENCE_IMAGE_IDEA : ""),
+    ...(image && { referenceImage: image.name }),
+    ...(inputLanguage !== "unknown" && { inputLanguage }),
+    ...(translateIdea && translatedIdea && {
+      translatedIdea: sanitizePromptForIP(sanitizeInput(translatedIdea, INPUT_LIMITS.USER_INPUT)),
+    }),
+    ...(hasFraming(sanitizedFraming) && { framing: sanitizedFraming }),
+    ...(sanitizedCharacter && { character: sanitizedCharacter.name, characterId: sanitizedCharacter.id }),
+    ideaIndex,
+    provider,
+    model: resolvedModel,
+  };
+}
+
+/**
+ * POST a built request and read the answer, streamed when `stream` is set.
+ * HTTP errors are thrown as ProviderRequestError so callers can fall back.
+ */
+export async function sendCompletionRequest(
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  { stream = false, onToken, signal }: { stream?: boolean; onToken?: (delta: string) => void; signal?: AbortSignal } = {}
+): Promise<CompletionResult> {
+  const init: RequestInit = {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...request.headers,
+    },
+    body: JSON.stringify(request.body),
+    signal,
+  };
+  // The mock provider answers in place of the network
+  const response = adapter.send ? await adapter.send(request.url, init) : await fetch(request.url, init);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ProviderRequestError(error.error?.message || `${adapter.name} API error: ${response.status}`, adapter.id, response.status);
+  }
+
+  // Validate content type
+  const contentType = response.headers.get('content-type');
+  if (!validateContentType(contentType, stream ? 'text/event-stream' : 'application/json')) {
+    throw new Error('Invalid response content type from API');
+  }
+
+  return stream && onToken
+    ? await adapter.parseStream(response, onToken)
+    : adapter.parseResponse(await response.json());
+}
+
+/** Options every request on the fallback chain shares */
+export interface FallbackRunOptions {
+  provider: ApiProvider;
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  signal?: AbortSignal;
+  fallbacks?: ProviderFallback[];
+  concurrencyLimits?: Partial<Record<ApiProvider, number>>;
+  onFallback?: (from: ApiProvider, to: ApiProvider) => void;
+  onStateChange?: (state: "queued" | "running") => void;
+}
+
+/**
+ * Run `attempt` on the primary provider, moving down the fallback chain
+ * whenever a provider is rate limited or down (see isRetryableProviderError).
+ * Any other error (bad key, invalid input, cancellation) is thrown as-is.
+ * Each attempt waits for the provider's rate limit window and then for one
+ * of its concurrency slots first.
+ */
+export async function runWithFallback<T>(
+  { fallbacks = [], onFallback, onStateChange, ...options }: FallbackRunOptions,
+  attempt: (current: ProviderFallback) => Promise<T>
+): Promise<T> {
+  const chain: ProviderFallback[] = [
+    { provider: options.provider, apiKey: options.apiKey, model: options.model, baseUrl: options.baseUrl },
+    ...fallbacks.filter((f) => f.provider !== options.provider),
+  ];
+
+  for (let i = 0; ; i++) {
+    const current = chain[i];
+    const limit = options.concurrencyLimits?.[current.provider] ?? DEFAULT_CONCURRENCY_LIMITS[current.provider];
+
+    // Wait in the provider's queue; each attempt in the chain queues separately.
+    // The rate limit window is waited out here too, so a sleeping slot counts as
+    // queued and doesn't hold one of the provider's concurrency slots.
+    onStateChange?.("queued");
+    throwIfAborted(options.signal);
+    await waitForRateLimit(current.provider, options.signal);
+    const release = await requestScheduler.acquire(current.provider, limit, options.signal);
+    onStateChange?.("running");
+    try {
+      return await attempt(current);
+    } catch (error) {
+      const next = chain[i + 1];
+      if (!next || !isRetryableProviderError(error)) {
+        throw error;
+      }
+      if (import.meta.env.DEV) {
+        console.warn(`[generatePrompt] ${current.provider} failed (${(error as ProviderRequestError).status}), falling back to ${next.provider}`);
+      }
+      onFallback?.(current.provider, next.provider);
+    } finally {
+      release();
+    }
+  }
+}
+
+/** Generate one prompt, falling back down the chain like runWithFallback */
+async function generateWithFallback({
+  onFallback,
+  onStateChange,
+  ...options
+}: GenerateOptions & {
+  variationIndex: number;
+  onToken?: (delta: string) => void;
+  onFallback?: (from: ApiProvider, to: ApiProvider) => void;
+  onStateChange?: (state: "queued" | "running") => void;
+}): Promise<GeneratedPrompt> {
+  // Reject input no provider should see before the slot queues or waits
+  const sanitizedUserInput = sanitizeInput(options.userInput, INPUT_LIMITS.USER_INPUT);
+  // With a reference image the text is optional notes
+  if (!sanitizedUserInput.trim() && !options.image) {
+    throw new Error('User input is required and cannot be empty after sanitization');
+  }
+  if (options.image && !isValidReferenceImage(options.image)) {
+    throw new Error('Invalid reference image. Use a PNG, JPG or WebP file.');
+  }
+
+  const result = await runWithFallback(
+    { ...options, onFallback, onStateChange },
+    (current) => generateSinglePrompt({ ...options, ...current })
+  );
+  // Recorded on the result, the provider selected later says nothing about this request
+  return result.provider !== options.provider ? { ...result, fallbackFrom: options.provider } : result;
 }
 
 // Batch parallel generation with progress tracking and streaming results
@@ -694,50 +1197,138 @@ export async function generatePromptBatch({
   batchSize,
   onProgress,
   onPromptReady,
+  onToken,
+  onPromptFailed,
+  onPromptCancelled,
   creativity,
   backgroundStyle,
+  framing,
+  character,
   promptLength,
-}: BatchGenerateOptions): Promise<string[]> {
-  let completed = 0;
-  const results: (string | null)[] = new Array(batchSize).fill(null);
+  signal,
+  fallbacks,
+  onFallback,
+  concurrencyLimits,
+  targetPlatform,
+  structuredOutput,
+  mode,
+  preservePhrases,
+  image,
+  outputLanguage,
+  similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD,
+  onDiversityRetry,
+}: BatchGenerateOptions): Promise<GeneratedPrompt[]> {
+  let cancelled = 0;
+  const checkDiversity = batchSize > 1 && similarityThreshold > 0 && mode !== "enhance";
+  // Slots are laid out idea by idea: index = ideaIndex * batchSize + variation
+  const ideas = splitIdeas(userInput);
+  const totalSlots = Math.max(ideas.length, 1) * batchSize;
+  const results: (GeneratedPrompt | null)[] = new Array(totalSlots).fill(null);
   const errors: Error[] = [];
+  const slotStates: ("queued" | "running" | "done")[] = new Array(totalSlots).fill("queued");
+
+  const setSlotState = (index: number, state: "queued" | "running" | "done") => {
+    slotStates[index] = state;
+    onProgress?.({
+      queued: slotStates.filter((s) => s === "queued").length,
+      running: slotStates.filter((s) => s === "running").length,
+      done: slotStates.filter((s) => s === "done").length,
+      total: totalSlots,
+    });
+  };
+
+  onProgress?.({ queued: totalSlots, running: 0, done: 0, total: totalSlots });
 
   // Create wrapped promises that report progress and stream results
-  const promises = Array.from({ length: batchSize }, async (_, index) => {
+  const promises = Array.from({ length: totalSlots }, async (_, index) => {
+    const ideaIndex = Math.floor(index / batchSize);
+    const slotOptions = {
+      apiKey,
+      provider,
+      model,
+      promptType,
+      // An empty idea list still goes through so sanitization reports the error
+      userInput: ideas[ideaIndex] ?? userInput,
+      ideaIndex,
+      baseUrl,
+      variationIndex: index % batchSize,
+      creativity,
+      backgroundStyle,
+      framing,
+      character,
+      promptLength,
+      onToken: onToken && ((delta: string) => onToken(index, delta)),
+      signal,
+      fallbacks,
+      onFallback: onFallback && ((from: ApiProvider, to: ApiProvider) => onFallback(index, from, to)),
+      concurrencyLimits,
+      targetPlatform,
+      structuredOutput,
+      mode,
+      preservePhrases,
+      image,
+      outputLanguage,
+      onStateChange: (state: "queued" | "running") => setSlotState(index, state),
+    };
     try {
-      const result = await generateSinglePrompt({
-        apiKey,
-        provider,
-        model,
-        promptType,
-        userInput,
-        baseUrl,
-        variationIndex: index,
-        creativity,
-        backgroundStyle,
-        promptLength,
-      });
+      let result = await generateWithFallback(slotOptions);
+
+      // Near-duplicate check against siblings of the same idea that finished
+      // first. Enhance mode is skipped: its variations share key phrases on purpose.
+      for (let retry = 0; checkDiversity && retry < MAX_DIVERSITY_RETRIES; retry++) {
+        const current = result;
+        const similar = results
+          .filter((r, i): r is GeneratedPrompt => r !== null && i !== index && Math.floor(i / batchSize) === ideaIndex)
+          .map((r) => ({ text: r.text, score: jaccardSimilarity(current.text, r.text) }))
+          .filter((r) => r.score >= similarityThreshold)
+          .sort((a, b) => b.score - a.score);
+        if (similar.length === 0) break;
+
+        if (import.meta.env.DEV) {
+          console.log(`[generatePromptBatch] Slot ${index} is ${Math.round(similar[0].score * 100)}% similar to a sibling, regenerating`);
+        }
+        onDiversityRetry?.(index, similar[0].score);
+        try {
+          const retried = await generateWithFallback({ ...slotOptions, avoidPrompts: similar.map((r) => r.text) });
+          // Both requests were paid for
+          result = { ...retried, usage: sumTokenUsage([current.usage, retried.usage]), diversityRetries: retry + 1 };
+        } catch (error) {
+          // A failed retry still leaves a usable (if similar) prompt
+          if (isAbortError(error)) throw error;
+          break;
+        }
+      }
+
       results[index] = result;
-      completed++;
-      onProgress?.(completed, batchSize);
+      setSlotState(index, "done");
       // Stream the result immediately when ready
       onPromptReady?.(result, index);
       return result;
     } catch (error) {
-      completed++;
-      onProgress?.(completed, batchSize);
-      errors.push(error instanceof Error ? error : new Error("Unknown error"));
+      setSlotState(index, "done");
+      if (isAbortError(error)) {
+        cancelled++;
+        onPromptCancelled?.(index);
+      } else {
+        const err = error instanceof Error ? error : new Error("Unknown error");
+        errors.push(err);
+        onPromptFailed?.(err, index);
+      }
       return null;
     }
   });
 
-  // Execute all in parallel
+  // All slots start queued; the scheduler decides how many run at once
   await Promise.all(promises);
 
   // Filter out nulls and return successful prompts in order
-  const successfulPrompts = results.filter((r): r is string => r !== null);
+  const successfulPrompts = results.filter((r): r is GeneratedPrompt => r !== null);
 
   if (successfulPrompts.length === 0) {
+    // Nothing finished and nothing failed: the whole batch was stopped
+    if (cancelled > 0 && errors.length === 0) {
+      throw new DOMException("Generation cancelled", "AbortError");
+    }
     throw new Error(errors[0]?.message || "All prompt generations failed");
   }
 
@@ -745,8 +1336,11 @@ export async function generatePromptBatch({
 }
 
 // Legacy single prompt (for backwards compatibility)
-export async function generatePrompt(options: GenerateOptions): Promise<string> {
-  return generateSinglePrompt({ ...options, variationIndex: 0 });
+export async function generatePrompt(options: GenerateOptions & {
+  onToken?: (delta: string) => void;
+  onFallback?: (from: ApiProvider, to: ApiProvider) => void;
+}): Promise<GeneratedPrompt> {
+  return generateWithFallback({ ...options, variationIndex: 0 });
 }
 
 // ============================================================================
@@ -976,29 +1570,5 @@ function parsePrompt(text: string): string {
   return cleaned;
 }
 
-function getDefaultModel(provider: ApiProvider, promptLength?: number): string {
-  switch (provider) {
-    case "openai":
-      return "gpt-4o-mini";
-    case "gemini":
-      // For long-form content (300+ words), prefer gemini-2.5-flash which has
-      // 65K output token limit and better handling of long content.
-      // gemini-2.0-flash has 8K limit and known truncation issues.
-      // NOTE: User can override this by selecting a specific model in settings.
-      if (promptLength && promptLength >= 300) {
-        return "gemini-2.5-flash"; // 65K output tokens, more stable for long content
-      }
-      return "gemini-2.0-flash"; // 8K output tokens, good for short/medium
-    case "openrouter":
-      return "openai/gpt-4o-mini";
-    case "groq":
-      return "llama-3.3-70b-versatile";
-    case "custom":
-      return "gpt-3.5-turbo";
-    default:
-      return "gpt-4o-mini";
-  }
-}
-
 // Export parsePrompt for testing purposes
 export { parsePrompt };
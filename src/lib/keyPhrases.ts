@@ -0,0 +1,102 @@
+// ============================================================================
+// KEY PHRASES - parts of an existing prompt that enhance mode must keep
+// ============================================================================
+// Enhance mode rewrites a prompt the user already has. The subject and the
+// distinctive descriptors are what made that prompt work, so they are pulled
+// out here, listed in the request as "keep verbatim", and checked again in
+// the result. Generic quality tags are left out on purpose: replacing those
+// is the point of enhancing.
+
+import { isPromptSafe } from "./ipFilter";
+import { extractMidjourneyParams, splitNegativePrompt } from "./platformFormatters";
+
+const MAX_KEY_PHRASES = 12;
+const MAX_PHRASE_WORDS = 6;
+const MAX_SUBJECT_WORDS = 12; // The first segment is usually the subject and may run longer
+
+// Boilerplate quality tags; the enhancer is free to swap these out
+const GENERIC_PHRASES = new Set([
+  "masterpiece",
+  "best quality",
+  "high quality",
+  "highest quality",
+  "ultra detailed",
+  "highly detailed",
+  "extremely detailed",
+  "very detailed",
+  "detailed",
+  "intricate details",
+  "highly intricate",
+  "sharp focus",
+  "8k",
+  "4k",
+  "8k resolution",
+  "4k resolution",
+  "hd",
+  "uhd",
+  "hdr",
+  "award-winning",
+  "award winning",
+  "trending on artstation",
+  "professional",
+  "beautiful",
+  "stunning",
+  "amazing",
+]);
+
+const QUOTED_PATTERN = /"([^"]{2,80})"/g;
+const WEIGHT_TERM_PATTERN = /\(([^():]+):\s*\d+(?:\.\d+)?\)/g;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Phrases from an existing prompt that should survive enhancement word for word:
+ * quoted text, weighted terms, the leading subject and short descriptors.
+ * Phrases the IP filter would rewrite are skipped, since they can't be kept anyway.
+ */
+export function extractKeyPhrases(prompt: string): string[] {
+  const { positive } = splitNegativePrompt(prompt);
+  const body = extractMidjourneyParams(positive).text;
+
+  const quoted = Array.from(body.matchAll(QUOTED_PATTERN), (m) => m[1].trim());
+  const weighted = Array.from(body.matchAll(WEIGHT_TERM_PATTERN), (m) => m[1].trim());
+  const segments = body
+    .replace(WEIGHT_TERM_PATTERN, "$1")
+    .replace(/"/g, "")
+    .split(/[,;.|\n]+/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const candidates = [
+    ...quoted,
+    ...weighted,
+    ...segments.filter((segment, i) => {
+      const words = segment.split(/\s+/).length;
+      return words <= (i === 0 ? MAX_SUBJECT_WORDS : MAX_PHRASE_WORDS);
+    }),
+  ];
+
+  const seen = new Set<string>();
+  const phrases: string[] = [];
+  for (const candidate of candidates) {
+    const key = normalize(candidate);
+    if (key.length < 3 || /^[\d\s:x.-]+$/.test(key) || GENERIC_PHRASES.has(key) || seen.has(key)) {
+      continue;
+    }
+    if (!isPromptSafe(candidate)) {
+      continue;
+    }
+    seen.add(key);
+    phrases.push(candidate);
+    if (phrases.length >= MAX_KEY_PHRASES) break;
+  }
+  return phrases;
+}
+
+/** Key phrases that no longer appear in the text (case and spacing are ignored) */
+export function findMissingPhrases(phrases: string[], text: string): string[] {
+  const haystack = normalize(text);
+  return phrases.filter((phrase) => !haystack.includes(normalize(phrase)));
+}
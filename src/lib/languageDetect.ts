@@ -0,0 +1,60 @@
+/**
+ * Input Language - local Indonesian/English detection for ideas
+ *
+ * Image and video models follow English prompts best, but ideas are often
+ * written in Indonesian. Counting common function words is enough to tell the
+ * two apart for a one-line idea, without a library or a network call.
+ */
+
+export type InputLanguage = "en" | "id" | "unknown";
+
+/** "english" translates the idea, "source" keeps writing in the idea's language */
+export type OutputLanguage = "english" | "source";
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "english";
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ["english", "source"];
+
+export const LANGUAGE_NAMES: Record<Exclude<InputLanguage, "unknown">, string> = {
+  en: "English",
+  id: "Indonesian",
+};
+
+const STOPWORDS: Record<Exclude<InputLanguage, "unknown">, Set<string>> = {
+  en: new Set([
+    "the", "a", "an", "and", "or", "of", "in", "on", "at", "with", "for", "to", "from", "by", "is", "are",
+    "was", "her", "his", "their", "its", "this", "that", "under", "over", "into", "near", "while", "who",
+    "wearing", "holding", "standing", "sitting", "walking",
+  ]),
+  id: new Set([
+    "yang", "dan", "di", "ke", "dari", "dengan", "untuk", "pada", "dalam", "ini", "itu", "atau", "sedang",
+    "sebuah", "seorang", "seekor", "para", "ada", "adalah", "tidak", "bisa", "akan", "sangat", "lebih",
+    "saat", "ketika", "sambil", "memakai", "menggunakan", "berdiri", "duduk", "berjalan", "tersenyum", "nya",
+    "anak", "kecil", "besar", "hutan", "kota", "malam", "pagi", "langit", "rumah", "kucing", "gadis", "wanita", "pria",
+  ]),
+};
+
+// Indonesian suffixes: rumahnya, dinyalakan, pergilah. Prefixes like di-/ber- are
+// left out, they also start plenty of English words (digital, berry)
+const INDONESIAN_SUFFIX = /^[a-z]{3,}(nya|kan|lah)$/;
+
+/**
+ * Guess whether `text` is Indonesian or English. Returns "unknown" for text
+ * with no telling words (a bare noun list, a name, an empty string).
+ */
+export function detectLanguage(text: string): InputLanguage {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  let en = 0;
+  let id = 0;
+  for (const word of words) {
+    if (STOPWORDS.en.has(word)) en++;
+    if (STOPWORDS.id.has(word)) id++;
+    else if (INDONESIAN_SUFFIX.test(word)) id += 0.5;
+  }
+  if (en === 0 && id === 0) return "unknown";
+  if (id > en) return "id";
+  return en > id ? "en" : "unknown";
+}
+
+export function isValidOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === "string" && (OUTPUT_LANGUAGES as string[]).includes(value);
+}
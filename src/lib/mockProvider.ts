@@ -0,0 +1,491 @@
+/**
+ * Mock Provider - local, deterministic stand-in for a hosted API
+ *
+ * The "mock" adapter builds its requests with the OpenAI or Gemini adapter
+ * (picked by model) and hands them to mockFetch instead of the network. The
+ * answer comes back in that API's own shape, JSON or SSE, so parsePrompt,
+ * truncation detection and continuations, the IP filter, structured output and
+ * provider fallback all run exactly as they do against a real key.
+ *
+ * The prompt text is seeded from the configured seed and the request body: the
+ * same request always gets the same answer. Whether a request fails (429 or
+ * timeout) is drawn from the seed and the request's position since the config
+ * was last set, so a run of requests fails the same way every time.
+ */
+
+import { delay } from "./requestScheduler";
+import { createSeededRandom, hashString } from "./seededRandom";
+
+export interface MockProviderConfig {
+  seed: number;
+  truncate: boolean; // First answer stops mid-sentence with a token-limit finish reason
+  markdownNoise: boolean; // Chatty preamble, bold label and a closing remark around the prompt
+  thinkingTags: boolean; // <thinking> block before the prompt
+  ipTerms: boolean; // Trademarked characters, studios and artists in the prompt
+  rateLimitRate: number; // 0-1 share of requests answered with 429
+  timeoutRate: number; // 0-1 share of requests that hang, then fail with 504
+  latencyMs: number; // Wait before the response starts
+}
+
+export type MockShape = "openai" | "gemini";
+
+export const MOCK_MODELS: { id: string; name: string; shape: MockShape }[] = [
+  { id: "mock-openai", name: "Mock (OpenAI format)", shape: "openai" },
+  { id: "mock-gemini", name: "Mock (Gemini format)", shape: "gemini" },
+];
+
+export const DEFAULT_MOCK_MODEL = MOCK_MODELS[0].id;
+
+/** Response header telling the mock adapter which parser a stream needs */
+export const MOCK_SHAPE_HEADER = "x-mock-shape";
+
+export const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  seed: 42,
+  truncate: false,
+  markdownNoise: false,
+  thinkingTags: false,
+  ipTerms: false,
+  rateLimitRate: 0,
+  timeoutRate: 0,
+  latencyMs: 400,
+};
+
+export const MAX_MOCK_LATENCY_MS = 10000;
+/** Choices offered in Settings for the 429 and timeout shares */
+export const MOCK_FAILURE_RATES = [0, 0.1, 0.25, 0.5, 1] as const;
+export const MOCK_LATENCY_OPTIONS = [0, 400, 1500, 5000] as const;
+// How long a "timed out" request hangs before the 504
+const MOCK_TIMEOUT_MS = 8000;
+// Pause between SSE chunks and words per chunk
+const STREAM_CHUNK_MS = 30;
+const STREAM_CHUNK_WORDS = 3;
+
+// Used when the template has no comma-separated keyword lists to borrow from
+const FALLBACK_TERMS = [
+  "rich detail", "cinematic lighting", "soft shadows", "balanced composition",
+  "atmospheric depth", "harmonious colors", "sharp focus", "natural textures",
+];
+
+// Inserted by ipTerms; every one of these is on the IP filter's blocklist
+const IP_PHRASES = [
+  "in the style of Studio Ghibli",
+  "art by Greg Rutkowski",
+  "with Pikachu in the background",
+  "wearing Nike sneakers",
+  "Iron Man armor details",
+  "Mickey Mouse cameo",
+];
+
+const MOCK_NEGATIVE_PROMPT = "blurry, low quality, watermark, text, deformed";
+
+const SENTENCE_OPENERS = ["", "The scene features", "Rendered with", "Enhanced by", "Finished with"];
+
+// Storyboard answers cycle through these
+const MOCK_CAMERA_MOVES = ["static", "slow push in", "pan left", "tracking shot", "crane up", "handheld"];
+const MOCK_SHOT_SIZES = ["wide", "medium", "close-up", "extreme close-up"];
+
+// Template sections whose lists are not prompt material
+const SKIPPED_SECTIONS = /negative|avoid|output|format|rule/i;
+
+let config: MockProviderConfig = { ...DEFAULT_MOCK_CONFIG };
+let requestCount = 0;
+
+function clampRate(value: unknown): number {
+  const rate = Number(value);
+  return Number.isFinite(rate) ? Math.max(0, Math.min(1, rate)) : 0;
+}
+
+/** Fill missing or invalid fields from the defaults (stored settings may be old or edited) */
+export function sanitizeMockProviderConfig(value: unknown): MockProviderConfig {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<Record<keyof MockProviderConfig, unknown>>;
+  const seed = Number(raw.seed);
+  const latencyMs = Number(raw.latencyMs);
+  return {
+    seed: Number.isInteger(seed) && seed >= 0 ? seed : DEFAULT_MOCK_CONFIG.seed,
+    truncate: raw.truncate === true,
+    markdownNoise: raw.markdownNoise === true,
+    thinkingTags: raw.thinkingTags === true,
+    ipTerms: raw.ipTerms === true,
+    rateLimitRate: clampRate(raw.rateLimitRate),
+    timeoutRate: clampRate(raw.timeoutRate),
+    latencyMs: Number.isFinite(latencyMs)
+      ? Math.max(0, Math.min(MAX_MOCK_LATENCY_MS, Math.round(latencyMs)))
+      : DEFAULT_MOCK_CONFIG.latencyMs,
+  };
+}
+
+/** Replace the module-wide config; also restarts the failure sequence */
+export function configureMockProvider(next: Partial<MockProviderConfig>): void {
+  config = sanitizeMockProviderConfig({ ...config, ...next });
+  requestCount = 0;
+}
+
+export function getMockProviderConfig(): MockProviderConfig {
+  return { ...config };
+}
+
+// ============================================================================
+// REQUEST READING
+// ============================================================================
+
+interface MockTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface MockRequest {
+  shape: MockShape;
+  model: string;
+  stream: boolean;
+  system: string;
+  turns: MockTurn[];
+  structured: boolean;
+  maxTokens?: number;
+  includeUsage: boolean;
+}
+
+// The fields of an OpenAI chat or Gemini generateContent body the mock reads
+interface MockRequestBody {
+  model?: string;
+  stream?: boolean;
+  messages?: { role?: string; content?: unknown }[];
+  max_tokens?: number;
+  response_format?: { type?: string };
+  stream_options?: { include_usage?: boolean };
+  contents?: { role?: string; parts?: unknown }[];
+  systemInstruction?: { parts?: unknown };
+  generationConfig?: { maxOutputTokens?: number; responseSchema?: unknown };
+}
+
+/** Text of a message whose content is a string or a list of parts */
+function partsText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((part) => (typeof part?.text === "string" ? part.text : "")).join("");
+}
+
+function readRequest(url: string, body: MockRequestBody): MockRequest {
+  const geminiMatch = /\/models\/([^/:]+):(stream)?[gG]enerateContent/.exec(url);
+  if (geminiMatch) {
+    const generation = body?.generationConfig || {};
+    return {
+      shape: "gemini",
+      model: geminiMatch[1],
+      stream: !!geminiMatch[2],
+      system: partsText(body?.systemInstruction?.parts),
+      turns: (body?.contents || []).map((turn): MockTurn => ({
+        role: turn?.role === "model" ? "assistant" : "user",
+        content: partsText(turn?.parts),
+      })),
+      structured: !!generation.responseSchema,
+      maxTokens: generation.maxOutputTokens,
+      includeUsage: true,
+    };
+  }
+  const messages = body?.messages || [];
+  return {
+    shape: "openai",
+    model: body?.model || DEFAULT_MOCK_MODEL,
+    stream: body?.stream === true,
+    system: messages.filter((m) => m?.role === "system").map((m) => partsText(m.content)).join("\n"),
+    turns: messages
+      .filter((m) => m?.role === "user" || m?.role === "assistant")
+      .map((m): MockTurn => ({ role: m.role as MockTurn["role"], content: partsText(m.content) })),
+    structured: body?.response_format?.type === "json_schema",
+    maxTokens: body?.max_tokens,
+    includeUsage: body?.stream_options?.include_usage === true,
+  };
+}
+
+/** Comma-separated keyword lists of the template, outside the negative and output sections */
+function templateTerms(template: string): string[] {
+  const terms: string[] = [];
+  let skipping = false;
+  for (const line of template.split("\n")) {
+    const header = /^\s*(?:\*\*|===)\s*(.+?)\s*(?:\*\*|===)/.exec(line);
+    if (header) {
+      skipping = SKIPPED_SECTIONS.test(header[1]);
+      continue;
+    }
+    if (skipping) continue;
+    const parts = line
+      .replace(/^\s*-\s*[^:,]{1,40}:\s*/, "")
+      .split(",")
+      .map((part) => part.trim().replace(/\.$/, ""))
+      .filter((part) => part && part.split(/\s+/).length <= 5 && /^[a-z0-9]/i.test(part) && !/[:"*=()]/.test(part))
+      // "NO photorealistic" style bans are instructions, not descriptors
+      .filter((part) => !/^(no|not|never|avoid)\b/i.test(part));
+    if (parts.length >= 3) terms.push(...parts);
+  }
+  return terms.length > 0 ? [...new Set(terms)] : FALLBACK_TERMS;
+}
+
+// ============================================================================
+// ANSWER TEXT
+// ============================================================================
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/** Comma-style sentences of template terms until about `targetWords` words are written */
+function writeSentences(lead: string, terms: string[], targetWords: number, random: () => number): string {
+  const sentences: string[] = [];
+  let pool: string[] = [];
+  let words = 0;
+  let opener = lead;
+  while (words < targetWords) {
+    if (pool.length < 4) pool = [...pool, ...shuffled(terms, random)];
+    const picked = pool.splice(0, 3 + Math.floor(random() * 3));
+    const body = opener ? `${opener}, ${picked.join(", ")}` : picked.join(", ");
+    const sentence = `${body.charAt(0).toUpperCase()}${body.slice(1)}.`;
+    sentences.push(sentence);
+    words += countWords(sentence);
+    const next = SENTENCE_OPENERS[Math.floor(random() * SENTENCE_OPENERS.length)];
+    opener = next ? `${next} ${pool.shift() || terms[0]}` : "";
+  }
+  return sentences.join(" ");
+}
+
+interface MockAnswer {
+  text: string;
+  truncated: boolean;
+}
+
+function composeAnswer(request: MockRequest, random: () => number): MockAnswer {
+  const template = request.turns[0]?.content || "";
+  const idea = (/^"([^\n]+)"$/m.exec(template)?.[1] || "a mysterious scene").trim();
+  const terms = templateTerms(template);
+  const lengthMatch = [...request.system.matchAll(/EXACTLY (\d+) words/g)].pop();
+  const targetWords = lengthMatch ? Number(lengthMatch[1]) : 150;
+  const last = request.turns[request.turns.length - 1];
+
+  // Follow-up turns: a continuation or a refinement of an earlier answer
+  if (request.turns.length > 1 && last?.role === "user") {
+    if (/stopped before it was finished/.test(last.content)) {
+      const remaining = Number(/write about (\d+) more words/.exec(last.content)?.[1]) || 20;
+      return { text: writeSentences("", terms, remaining, random), truncated: false };
+    }
+    const previous = [...request.turns].reverse().find((turn) => turn.role === "assistant")?.content || idea;
+    const instruction = /^Revise the prompt you just wrote: (.+)$/m.exec(last.content)?.[1] || "";
+    const revised = `${previous.replace(/[.\s]+$/, "")}${instruction ? `, ${instruction.replace(/[.\s]+$/, "")}` : ""}.`;
+    return { text: revised, truncated: false };
+  }
+
+  const lead = config.ipTerms
+    ? `${idea} ${shuffled(IP_PHRASES, random).slice(0, 2).join(", ")}`
+    : idea;
+  let prompt = writeSentences(lead, terms, targetWords, random);
+
+  const translate = request.system.includes('write one line "TRANSLATED IDEA:');
+  const shotCount = Number(/EXACTLY (\d+) consecutive shots/.exec(request.system)?.[1]) || 0;
+  let text: string;
+  if (shotCount > 0) {
+    // Storyboard: every shot restates the same continuity line
+    const continuity = `${idea}, ${terms.slice(0, 3).join(", ")}`;
+    text = JSON.stringify({
+      continuity,
+      shots: Array.from({ length: shotCount }, (_, i) => ({
+        prompt: writeSentences(`${continuity}, shot ${i + 1}`, terms, 40, random),
+        cameraMove: MOCK_CAMERA_MOVES[i % MOCK_CAMERA_MOVES.length],
+        shotSize: MOCK_SHOT_SIZES[i % MOCK_SHOT_SIZES.length],
+        duration: 2 + Math.floor(random() * 6),
+      })),
+    });
+    if (config.markdownNoise) text = `\`\`\`json\n${text}\n\`\`\``;
+  } else if (request.structured) {
+    text = JSON.stringify({
+      prompt,
+      negativePrompt: MOCK_NEGATIVE_PROMPT,
+      styleTags: terms.slice(0, 4),
+      subject: idea.split(/\s+/).slice(0, 5).join(" "),
+      translatedIdea: "",
+    });
+    if (config.markdownNoise) text = `\`\`\`json\n${text}\n\`\`\``;
+  } else {
+    // Image types ask for the negative prompt after the prompt
+    if (request.system.includes('write "Negative prompt:"')) {
+      prompt = `${prompt}\nNegative prompt: ${MOCK_NEGATIVE_PROMPT}`;
+    }
+    if (config.markdownNoise) {
+      prompt = `Here's your optimized prompt:\n\n**Prompt:** ${prompt}\n\n---\n*Feel free to tweak the lighting or colors to taste!*`;
+    }
+    // The mock cannot translate; it echoes the idea so the line is still exercised
+    text = translate ? `TRANSLATED IDEA: ${idea}\n${prompt}` : prompt;
+  }
+  if (config.thinkingTags) {
+    text = `<thinking>The user wants ${idea}. I'll lead with the subject, then style, lighting and composition, and keep it to one line.</thinking>\n${text}`;
+  }
+
+  if (config.truncate) {
+    // Cut partway through, after a word that does not end a sentence
+    const words = text.split(" ");
+    const cut = Math.max(1, Math.floor(words.length * (0.5 + random() * 0.2)));
+    return { text: words.slice(0, cut).join(" ").replace(/[.,;:!?]+$/, ""), truncated: true };
+  }
+  return { text, truncated: false };
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function jsonResponse(status: number, data: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function errorResponse(shape: MockShape, status: 429 | 504, detail: string): Response {
+  const message = `Mock provider: ${detail}`;
+  if (shape === "gemini") {
+    return jsonResponse(status, {
+      error: { code: status, message, status: status === 429 ? "RESOURCE_EXHAUSTED" : "DEADLINE_EXCEEDED" },
+    });
+  }
+  return jsonResponse(
+    status,
+    { error: { message, type: status === 429 ? "rate_limit_error" : "timeout", code: status === 429 ? "rate_limit_exceeded" : null } },
+    status === 429 ? { "Retry-After": "1" } : {}
+  );
+}
+
+/** Payload for one slice of text; `finishReason` and `usage` are set on the last one */
+function payload(request: MockRequest, id: string, text: string, finishReason?: string, usage?: { input: number; output: number }): unknown {
+  if (request.shape === "gemini") {
+    return {
+      candidates: [{
+        content: { parts: [{ text }], role: "model" },
+        ...(finishReason && { finishReason }),
+        index: 0,
+      }],
+      ...(usage && {
+        usageMetadata: { promptTokenCount: usage.input, candidatesTokenCount: usage.output, totalTokenCount: usage.input + usage.output },
+      }),
+      modelVersion: request.model,
+    };
+  }
+  const created = Math.floor(Date.now() / 1000);
+  const choice = request.stream
+    ? { index: 0, delta: { content: text }, finish_reason: finishReason ?? null }
+    : { index: 0, message: { role: "assistant", content: text }, finish_reason: finishReason ?? null };
+  return {
+    id,
+    object: request.stream ? "chat.completion.chunk" : "chat.completion",
+    created,
+    model: request.model,
+    choices: [choice],
+    ...(usage && !request.stream && {
+      usage: { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output },
+    }),
+  };
+}
+
+function streamResponse(request: MockRequest, id: string, text: string, finishReason: string, usage: { input: number; output: number }, signal?: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  const words = text.split(/(?<= )/);
+  const events: unknown[] = [];
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    events.push(payload(request, id, words.slice(i, i + STREAM_CHUNK_WORDS).join("")));
+  }
+  if (request.shape === "gemini") {
+    events.push(payload(request, id, "", finishReason, usage));
+  } else {
+    events.push(payload(request, id, "", finishReason));
+    // With stream_options.include_usage the usage arrives in a chunk with no choices
+    if (request.includeUsage) {
+      events.push({
+        id,
+        object: "chat.completion.chunk",
+        model: request.model,
+        choices: [],
+        usage: { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output },
+      });
+    }
+  }
+
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (index > 0) await delay(STREAM_CHUNK_MS, signal);
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+      if (index < events.length) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(events[index++])}\n\n`));
+        return;
+      }
+      if (request.shape === "openai") controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream", [MOCK_SHAPE_HEADER]: request.shape },
+  });
+}
+
+/**
+ * Answer a request the mock adapter built, as the matching API would. Honors
+ * the abort signal while waiting; the configured failures come first.
+ */
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let body: MockRequestBody = {};
+  try {
+    body = JSON.parse(typeof init.body === "string" ? init.body : "{}");
+  } catch {
+    // An unreadable body still gets an answer, built from the defaults
+  }
+  const request = readRequest(url, body);
+  const signal = init.signal ?? undefined;
+
+  const failure = createSeededRandom(`${config.seed}:request:${requestCount++}`)();
+  await delay(config.latencyMs, signal);
+  if (failure < config.rateLimitRate) {
+    return errorResponse(request.shape, 429, "rate limit reached, retry after 1s");
+  }
+  if (failure < config.rateLimitRate + config.timeoutRate) {
+    await delay(MOCK_TIMEOUT_MS, signal);
+    return errorResponse(request.shape, 504, "request timed out");
+  }
+
+  const bodyKey = JSON.stringify(body);
+  const random = createSeededRandom(`${config.seed}:${bodyKey}`);
+  const answer = composeAnswer(request, random);
+  const id = `chatcmpl-mock${hashString(bodyKey).toString(36)}`;
+
+  // Past max_tokens the text is cut off like a real model's, whatever the config says
+  let text = answer.text;
+  let truncated = answer.truncated;
+  if (request.maxTokens && estimateTokens(text) > request.maxTokens) {
+    text = text.slice(0, request.maxTokens * 4).replace(/\s+\S*$/, "");
+    truncated = true;
+  }
+  const finishReason = request.shape === "gemini"
+    ? (truncated ? "MAX_TOKENS" : "STOP")
+    : (truncated ? "length" : "stop");
+  const usage = {
+    input: estimateTokens(`${request.system}${request.turns.map((turn) => turn.content).join("")}`),
+    output: estimateTokens(text),
+  };
+
+  return request.stream
+    ? streamResponse(request, id, text, finishReason, usage, signal)
+    : jsonResponse(200, payload(request, id, text, finishReason, usage), { [MOCK_SHAPE_HEADER]: request.shape });
+}
@@ -0,0 +1,230 @@
+/**
+ * Offline Composer - rule-based prompts without an API key
+ *
+ * Builds image and video prompts from the idea plus the vocabulary the
+ * templates already curate (quality modifiers, lighting, composition,
+ * atmosphere, colors), the style requirement of the prompt type and the
+ * background instruction. No network call is made. A seed makes the picks
+ * reproducible: the same idea, settings and seed always give the same prompt.
+ */
+
+import { GeneratedPrompt, PromptMode, backgroundInstructions, splitIdeas, getFallbackNegativePrompt, DEFAULT_PROMPT_LENGTH } from "./generatePrompt";
+import { getTemplateKey, getStyleKeywords } from "./promptTemplates";
+import { getTemplateVocabulary, contradictsStyle, lintPrompt, isLintablePromptType, CoverageDimension } from "./promptLinter";
+import { formatForPlatform, TargetPlatform } from "./platformFormatters";
+import { detectLanguage } from "./languageDetect";
+import { sanitizePromptForIP } from "./ipFilter";
+import { sanitizeInput, INPUT_LIMITS } from "./sanitize";
+import { createSeededRandom } from "./seededRandom";
+import { FramingOptions, sanitizeFraming, hasFraming, getFramingTerms, getAspectRatioParam } from "./framing";
+import { CharacterProfile, sanitizeCharacterProfile, getCharacterTerms, getForbiddenTraits } from "./characters";
+
+export const OFFLINE_PROVIDER = "offline";
+export const OFFLINE_MODEL = "rule-based";
+export const MAX_SEED = 2147483647;
+
+export interface ComposeOptions {
+  promptType: string;
+  userInput: string; // One idea per line, like generatePromptBatch
+  seed: number; // Variation v of every idea uses seed + v
+  batchSize?: number;
+  backgroundStyle?: string;
+  framing?: FramingOptions; // Chosen terms replace the composition picks
+  character?: CharacterProfile; // Appearance follows the idea; forbidden traits join the negative prompt
+  promptLength?: number; // Target words; more terms per dimension for longer prompts
+  creativity?: number; // 1-5; low levels stick to the first, most common terms of each list
+  targetPlatform?: TargetPlatform;
+  mode?: PromptMode; // "enhance" keeps the prompt and only adds what the linter finds missing
+}
+
+// Order the picked terms appear in after the idea. Subject is the idea itself.
+const COMPOSED_DIMENSIONS: CoverageDimension[] = [
+  "style",
+  "environment",
+  "lighting",
+  "atmosphere",
+  "colors",
+  "composition",
+  "textures",
+];
+
+// Templates whose terms fill a dimension the type's own template has none for
+const FALLBACK_TEMPLATES: Record<"image" | "video", string[]> = {
+  image: ["image"],
+  video: ["video", "cinematic_video"],
+};
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) + 1;
+}
+
+/** Whole number between 0 and MAX_SEED, or undefined for anything else */
+export function parseSeed(value: string | number): number | undefined {
+  const seed = typeof value === "number" ? value : Number(value.trim());
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED ? seed : undefined;
+}
+
+/** Up to `count` distinct entries from the first part of `pool`, in draw order */
+function pick(pool: string[], count: number, random: () => number, creativity: number): string[] {
+  const reach = Math.max(count, Math.ceil(pool.length * Math.min(1, 0.4 + creativity * 0.15)));
+  const candidates = pool.slice(0, reach);
+  const picked: string[] = [];
+  while (picked.length < count && candidates.length > 0) {
+    picked.push(candidates.splice(Math.floor(random() * candidates.length), 1)[0]);
+  }
+  return picked;
+}
+
+function familyOf(promptType: string): "image" | "video" {
+  return promptType.startsWith("video") ? "video" : "image";
+}
+
+/** The type's template first, then the family templates for dimensions it lacks */
+function vocabularyPool(promptType: string, select: (key: string) => string[]): string[] {
+  const keys = [getTemplateKey(promptType), ...FALLBACK_TEMPLATES[familyOf(promptType)]];
+  for (const key of new Set(keys)) {
+    const terms = select(key).filter((term) =>
+      // "f/2.8" comes out of the linter's normalizer as "f/2 8"
+      !/\d \d/.test(term) && !contradictsStyle(term, promptType));
+    if (terms.length > 0) return terms;
+  }
+  return [];
+}
+
+/** Descriptors of a background instruction, without its "IMPORTANT: The image MUST have" lead-in */
+function backgroundTerms(backgroundStyle: string): string[] {
+  const instruction = backgroundInstructions[backgroundStyle] || "";
+  return instruction
+    .replace(/^IMPORTANT:\s*/, "")
+    .replace(/\.$/, "")
+    .split(",")
+    .map((part) => part
+      .replace(/\([^)]*\)/g, "")
+      .replace(/^(the image )?(must have an?|should be suitable for)\s+/i, "")
+      .trim()
+      .toLowerCase())
+    .filter(Boolean)
+    .slice(0, 2);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Compose one prompt for `idea`. Deterministic: the seed, idea and options
+ * fully decide the result, so a stored seed reproduces the prompt.
+ */
+export function composeOfflinePrompt(
+  idea: string,
+  {
+    promptType,
+    seed,
+    backgroundStyle = "none",
+    framing,
+    character,
+    promptLength = DEFAULT_PROMPT_LENGTH,
+    creativity = 3,
+    targetPlatform = "generic",
+    mode = "generate",
+  }: Omit<ComposeOptions, "userInput" | "batchSize">,
+  ideaIndex = 0
+): GeneratedPrompt {
+  const sanitizedIdea = sanitizeInput(idea, INPUT_LIMITS.USER_INPUT).trim();
+  const random = createSeededRandom(`${seed}:${promptType}:${sanitizedIdea}`);
+  const isEnhance = mode === "enhance";
+  const perDimension = Math.max(1, Math.min(3, Math.round(promptLength / 120)));
+
+  // Enhance keeps the prompt and only fills the dimensions it does not cover yet
+  const missing = isEnhance ? lintPrompt(sanitizedIdea, promptType, sanitizedIdea).missing : COMPOSED_DIMENSIONS;
+  const used = new Set<string>();
+  const mentioned = (term: string) => used.has(term) || sanitizedIdea.toLowerCase().includes(term);
+  const take = (terms: string[]) => terms.filter((term) => !mentioned(term) && used.add(term));
+
+  const background = backgroundTerms(backgroundStyle);
+  const sanitizedFraming = sanitizeFraming(framing);
+  const framingTerms = getFramingTerms(sanitizedFraming);
+  const sanitizedCharacter = sanitizeCharacterProfile(character) ?? undefined;
+  const parts: string[] = [sanitizedIdea.replace(/[.,;\s]+$/, "")];
+  // The character's look goes right after the idea, before any picked term
+  parts.push(...take(getCharacterTerms(sanitizedCharacter)));
+  for (const dimension of COMPOSED_DIMENSIONS) {
+    if (!missing.includes(dimension)) continue;
+    if (dimension === "style") {
+      // The type's own style comes first. With style freedom a single term is
+      // drawn, the template lists photo, anime and painting styles side by side.
+      const [lead, ...rest] = getStyleKeywords(promptType);
+      const styles = lead
+        ? [lead, ...pick(rest, perDimension - 1, random, creativity)]
+        : pick(vocabularyPool(promptType, (key) => getTemplateVocabulary(key).terms.style), 1, random, creativity);
+      parts.push(...take(styles));
+    } else if (dimension === "environment" && background.length > 0) {
+      parts.push(...take(background));
+    } else if (dimension === "composition" && framingTerms.length > 0) {
+      parts.push(...take(framingTerms));
+    } else {
+      const pool = vocabularyPool(promptType, (key) => getTemplateVocabulary(key).terms[dimension]);
+      parts.push(...take(pick(pool, perDimension, random, creativity)));
+    }
+  }
+  // A background that the environment slot did not place (enhance with a covered environment)
+  if (background.length > 0 && !missing.includes("environment")) {
+    parts.push(...take(background));
+  }
+  // Framing the user picked goes in even when the prompt already covers composition
+  if (framingTerms.length > 0 && !missing.includes("composition")) {
+    parts.push(...take(framingTerms));
+  }
+  if (!isEnhance) {
+    const quality = vocabularyPool(promptType, (key) => getTemplateVocabulary(key).quality);
+    parts.push(...take(pick(quality, perDimension + 1, random, creativity)));
+  }
+
+  const fallbackNegative = getFallbackNegativePrompt(promptType);
+  const forbidden = getForbiddenTraits(sanitizedCharacter);
+  const negativePrompt = fallbackNegative && forbidden.length > 0
+    ? [...forbidden, fallbackNegative].join(", ")
+    : fallbackNegative;
+
+  const prompt = sanitizePromptForIP(parts.filter(Boolean).join(", "));
+  const formatted = formatForPlatform(prompt, targetPlatform, {
+    creativity,
+    aspectRatio: getAspectRatioParam(sanitizedFraming),
+    negativePrompt,
+  });
+  const formattedNegative = formatted.negativePrompt ?? negativePrompt;
+  const inputLanguage = isEnhance ? "unknown" : detectLanguage(sanitizedIdea);
+  return {
+    text: formatted.text,
+    negativePrompt: formattedNegative && sanitizePromptForIP(formattedNegative),
+    structured: false,
+    platform: targetPlatform,
+    mode,
+    ...(isLintablePromptType(promptType) && {
+      lint: lintPrompt(formatted.text, promptType, sanitizedIdea),
+    }),
+    attempts: 1,
+    incomplete: false,
+    wordCount: countWords(formatted.text),
+    idea: sanitizedIdea,
+    ...(inputLanguage !== "unknown" && { inputLanguage }),
+    ideaIndex,
+    provider: OFFLINE_PROVIDER,
+    model: OFFLINE_MODEL,
+    seed,
+    ...(hasFraming(sanitizedFraming) && { framing: sanitizedFraming }),
+    ...(sanitizedCharacter && { character: sanitizedCharacter.name, characterId: sanitizedCharacter.id }),
+  };
+}
+
+/**
+ * Compose `batchSize` variations per idea, laid out like generatePromptBatch
+ * (index = ideaIndex * batchSize + variation). Variation v uses seed + v, so
+ * every prompt can be reproduced on its own from the seed shown on its card.
+ */
+export function composeOfflineBatch({ userInput, batchSize = 1, seed, ...options }: ComposeOptions): GeneratedPrompt[] {
+  return splitIdeas(userInput).flatMap((idea, ideaIndex) =>
+    Array.from({ length: batchSize }, (_, variation) =>
+      composeOfflinePrompt(idea, { ...options, seed: (seed + variation) % (MAX_SEED + 1) }, ideaIndex))
+  );
+}
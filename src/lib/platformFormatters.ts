@@ -0,0 +1,308 @@
+// ============================================================================
+// TARGET PLATFORM FORMATTERS
+// ============================================================================
+// parsePrompt() flattens model output to one clean line. These formatters run
+// after it and turn that line into the syntax each image generator expects:
+// Midjourney parameter suffixes, Stable Diffusion (word:1.2) weights with a
+// separate negative prompt, and plain sentences for DALL·E and Flux.
+
+import { sanitizePromptForIP } from "./ipFilter";
+
+export type TargetPlatform = "generic" | "midjourney" | "sdxl" | "dalle" | "flux";
+
+export interface TargetPlatformConfig {
+  id: TargetPlatform;
+  label: string;
+  description: string;
+  maxWords?: number; // Words past this are ignored (or rejected) by the platform
+  maxChars?: number; // Hard character limit of the platform's prompt field
+  instruction: string; // Appended to the system prompt so the model writes in the right register
+}
+
+export const targetPlatforms: Record<TargetPlatform, TargetPlatformConfig> = {
+  generic: {
+    id: "generic",
+    label: "Generic",
+    description: "Single clean line, no platform syntax",
+    instruction: "",
+  },
+  midjourney: {
+    id: "midjourney",
+    label: "Midjourney",
+    description: "Comma descriptors + --ar / --stylize suffixes",
+    // Midjourney gives little weight to anything after roughly 60 words
+    maxWords: 60,
+    maxChars: 6000,
+    instruction: `TARGET PLATFORM: Midjourney.
+- Write dense, comma-separated visual descriptors, most important first
+- If a specific aspect ratio or stylize value matters, add it at the very end as Midjourney parameters (e.g. --ar 16:9 --stylize 250)
+- Do not write full sentences or explanations`,
+  },
+  sdxl: {
+    id: "sdxl",
+    label: "Stable Diffusion",
+    description: "(word:1.2) weights + negative prompt",
+    // CLIP reads 77 tokens per chunk; keep the positive prompt in the first chunks
+    maxWords: 75,
+    instruction: `TARGET PLATFORM: Stable Diffusion XL.
+- Write comma-separated tags and short phrases, most important first
+- Emphasize the 2-4 most important elements with weight syntax, e.g. (glowing eyes:1.3), using weights between 1.1 and 1.5
+- After the prompt, on the same line, add "Negative prompt:" followed by comma-separated things to avoid`,
+  },
+  dalle: {
+    id: "dalle",
+    label: "DALL·E",
+    description: "Natural-language sentences",
+    maxChars: 4000,
+    instruction: `TARGET PLATFORM: DALL·E 3.
+- Write in plain, natural-language sentences that describe the image like a caption
+- No weight syntax, no parameters, no tag lists`,
+  },
+  flux: {
+    id: "flux",
+    label: "Flux",
+    description: "Natural language, long prompts OK",
+    // T5 encoder context is 512 tokens
+    maxWords: 380,
+    instruction: `TARGET PLATFORM: Flux.
+- Write in natural, descriptive sentences; Flux follows long and precise descriptions well
+- No weight syntax and no parameters`,
+  },
+};
+
+export interface FormatOptions {
+  rawText?: string; // Unparsed model output, used to recover syntax parsePrompt drops
+  creativity?: number; // 1-5, mapped to Midjourney --stylize when the model gave none
+  aspectRatio?: string; // e.g. "16:9"; overrides any --ar from the model
+  negativePrompt?: string; // Used for SD when the model did not write one
+}
+
+export interface FormattedPrompt {
+  text: string;
+  negativePrompt?: string;
+}
+
+// Midjourney parameters we keep, with the shape of their value
+const MIDJOURNEY_PARAMS: Record<string, RegExp | null> = {
+  ar: /^\d+:\d+$/,
+  aspect: /^\d+:\d+$/,
+  stylize: /^\d+$/,
+  s: /^\d+$/,
+  chaos: /^\d+$/,
+  c: /^\d+$/,
+  weird: /^\d+$/,
+  w: /^\d+$/,
+  v: /^[\d.]+$/,
+  niji: /^[\d.]*$/,
+  q: /^[\d.]+$/,
+  quality: /^[\d.]+$/,
+  seed: /^\d+$/,
+  style: /^[a-z]+$/i,
+  tile: null,
+  no: null, // Free text until the next parameter
+};
+
+// Alias -> canonical name, so "--s 250" and "--stylize 250" are not both kept
+const MIDJOURNEY_ALIASES: Record<string, string> = {
+  aspect: "ar",
+  s: "stylize",
+  c: "chaos",
+  w: "weird",
+  quality: "q",
+};
+
+const STYLIZE_BY_CREATIVITY: Record<number, number> = {
+  1: 50,
+  2: 100,
+  3: 250,
+  4: 500,
+  5: 750,
+};
+
+const DEFAULT_SD_NEGATIVE_PROMPT =
+  "lowres, blurry, jpeg artifacts, watermark, signature, text, bad anatomy, extra fingers, deformed, disfigured, cropped, worst quality";
+
+const PARAM_PATTERN = /(?:^|\s)--([a-z]+)((?:\s+(?!--)[^\s]+)*)/gi;
+const WEIGHT_PATTERN = /\(([^():]+):\s*(\d+(?:\.\d+)?)\)/g;
+const NEGATIVE_PATTERN = /\s*negative prompt\s*:\s*/i;
+
+/**
+ * Split "... Negative prompt: a, b, c" into the positive and negative parts.
+ */
+export function splitNegativePrompt(text: string): { positive: string; negative?: string } {
+  const match = NEGATIVE_PATTERN.exec(text);
+  if (!match) {
+    return { positive: text };
+  }
+  const negative = text
+    .slice(match.index + match[0].length)
+    .replace(/[\r\n]+/g, " ")
+    .replace(/[.\s]+$/, "")
+    .trim();
+  return {
+    positive: text.slice(0, match.index).trim(),
+    negative: negative || undefined,
+  };
+}
+
+/**
+ * Pull Midjourney parameters out of text. Returns them in canonical form
+ * (aliases resolved, later duplicates win) plus the text without them.
+ */
+export function extractMidjourneyParams(text: string): { text: string; params: Map<string, string> } {
+  const params = new Map<string, string>();
+  const stripped = text.replace(PARAM_PATTERN, (match, rawName: string, rawValue: string) => {
+    const name = rawName.toLowerCase();
+    if (!(name in MIDJOURNEY_PARAMS)) {
+      return match;
+    }
+    const valuePattern = MIDJOURNEY_PARAMS[name];
+    const words = rawValue.trim().split(/\s+/).filter(Boolean);
+    let value = "";
+    let rest: string[] = words;
+
+    if (name === "no") {
+      value = words.join(" ").replace(/[.,]+$/, "");
+      rest = [];
+    } else if (valuePattern) {
+      if (words.length > 0 && valuePattern.test(words[0].replace(/[.,]+$/, ""))) {
+        value = words[0].replace(/[.,]+$/, "");
+        rest = words.slice(1);
+      } else if (!valuePattern.test("")) {
+        // Parameter needs a value and has none; drop it
+        return rest.length ? ` ${rest.join(" ")}` : "";
+      }
+    }
+
+    params.set(MIDJOURNEY_ALIASES[name] || name, value);
+    return rest.length ? ` ${rest.join(" ")}` : "";
+  });
+  return { text: stripped.replace(/\s{2,}/g, " ").trim(), params };
+}
+
+/** Weighted terms written by the model, e.g. "(glowing eyes:1.3)" -> ["glowing eyes", "1.3"] */
+function extractWeights(text: string): Array<[string, string]> {
+  return Array.from(text.matchAll(WEIGHT_PATTERN), (m) => [m[1].trim(), m[2]] as [string, string]);
+}
+
+function stripWeights(text: string): string {
+  return text.replace(WEIGHT_PATTERN, "$1");
+}
+
+function clampWeight(weight: string): string {
+  const value = Math.min(1.5, Math.max(0.5, parseFloat(weight) || 1));
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Cut text to the platform limits, preferring to stop at a comma or sentence end.
+ */
+export function limitLength(text: string, maxWords?: number, maxChars?: number): string {
+  let result = text;
+
+  if (maxWords) {
+    const words = result.split(/\s+/).filter(Boolean);
+    if (words.length > maxWords) {
+      result = words.slice(0, maxWords).join(" ");
+      // Back up to the last full phrase if it doesn't lose too much
+      const boundary = Math.max(result.lastIndexOf(","), result.lastIndexOf("."));
+      if (boundary > result.length * 0.6) {
+        result = result.slice(0, boundary);
+      }
+    }
+  }
+
+  if (maxChars && result.length > maxChars) {
+    result = result.slice(0, maxChars);
+    const boundary = Math.max(result.lastIndexOf(". "), result.lastIndexOf(", "));
+    result = boundary > maxChars * 0.6 ? result.slice(0, boundary + 1) : result.slice(0, result.lastIndexOf(" "));
+  }
+
+  return result.replace(/[,;:\s]+$/, "").trim();
+}
+
+function toSentence(text: string): string {
+  const trimmed = text.replace(/[,;:\s]+$/, "").trim();
+  if (!trimmed) return trimmed;
+  const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+function formatMidjourney(text: string, config: TargetPlatformConfig, options: FormatOptions): FormattedPrompt {
+  // Parameters may survive in the cleaned text or only in the raw output
+  const fromRaw = options.rawText ? extractMidjourneyParams(options.rawText).params : new Map<string, string>();
+  const { text: body, params } = extractMidjourneyParams(stripWeights(text));
+  const merged = new Map([...fromRaw, ...params]);
+  // --no is free text from the unfiltered output and goes on after the IP filter ran
+  if (merged.get("no")) {
+    merged.set("no", sanitizePromptForIP(merged.get("no")));
+  }
+
+  if (options.aspectRatio) {
+    merged.set("ar", options.aspectRatio);
+  }
+  if (!merged.has("stylize") && options.creativity) {
+    merged.set("stylize", String(STYLIZE_BY_CREATIVITY[options.creativity] ?? 250));
+  }
+
+  // --ar and --stylize first, in the order people usually write them
+  const order = ["ar", "stylize", "chaos", "weird", "style", "v", "niji", "q", "seed", "tile", "no"];
+  const suffix = order
+    .filter((name) => merged.has(name))
+    .map((name) => {
+      const value = merged.get(name);
+      return value ? `--${name} ${value}` : `--${name}`;
+    })
+    .join(" ");
+
+  const description = limitLength(body.replace(/\.$/, ""), config.maxWords, config.maxChars);
+  return { text: suffix ? `${description} ${suffix}` : description };
+}
+
+function formatStableDiffusion(text: string, config: TargetPlatformConfig, options: FormatOptions): FormattedPrompt {
+  const raw = options.rawText ? splitNegativePrompt(options.rawText) : undefined;
+  const { positive, negative } = splitNegativePrompt(text);
+
+  // Re-apply weights the model wrote that cleaning may have broken apart
+  let body = extractMidjourneyParams(positive).text;
+  for (const [term, weight] of extractWeights(raw?.positive ?? "")) {
+    if (!body.includes(`(${term}:`) && body.includes(term)) {
+      body = body.replace(term, `(${term}:${weight})`);
+    }
+  }
+  body = body.replace(WEIGHT_PATTERN, (_, term: string, weight: string) => `(${term.trim()}:${clampWeight(weight)})`);
+
+  return {
+    text: limitLength(body.replace(/\.$/, ""), config.maxWords, config.maxChars),
+    negativePrompt: negative || raw?.negative || options.negativePrompt || DEFAULT_SD_NEGATIVE_PROMPT,
+  };
+}
+
+function formatNaturalLanguage(text: string, config: TargetPlatformConfig): FormattedPrompt {
+  const { positive } = splitNegativePrompt(text);
+  const plain = stripWeights(extractMidjourneyParams(positive).text);
+  return { text: toSentence(limitLength(plain, config.maxWords, config.maxChars)) };
+}
+
+/**
+ * Format a cleaned prompt for the selected image generator.
+ * "generic" returns the text unchanged.
+ */
+export function formatForPlatform(text: string, platform: TargetPlatform, options: FormatOptions = {}): FormattedPrompt {
+  const config = targetPlatforms[platform];
+  if (!config) {
+    return { text };
+  }
+
+  switch (platform) {
+    case "midjourney":
+      return formatMidjourney(text, config, options);
+    case "sdxl":
+      return formatStableDiffusion(text, config, options);
+    case "dalle":
+    case "flux":
+      return formatNaturalLanguage(text, config);
+    default:
+      return { text };
+  }
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// MODEL PRICING - cost estimates from reported token usage
+// ============================================================================
+// Prices are USD per 1M tokens and only used for estimates shown in the UI.
+// Users can override or extend them in Settings (see useModelPrices).
+
+import type { TokenUsage } from "./generatePrompt";
+
+export interface ModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  // OpenAI
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  // Google Gemini
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  // Anthropic
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  // Groq
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+};
+
+/**
+ * Find the price for a model id. Tries the exact id, then the id without an
+ * OpenRouter-style "vendor/" prefix, then the longest table key the id starts
+ * with (so dated snapshots like "gpt-4o-2024-08-06" use the "gpt-4o" price).
+ */
+export function findModelPrice(model: string, prices: ModelPriceTable): ModelPrice | undefined {
+  if (!model) return undefined;
+  const candidates = [model, model.includes("/") ? model.slice(model.lastIndexOf("/") + 1) : ""].filter(Boolean);
+
+  for (const id of candidates) {
+    if (prices[id]) return prices[id];
+  }
+  for (const id of candidates) {
+    const prefix = Object.keys(prices)
+      .filter((key) => id.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return prices[prefix];
+  }
+  return undefined;
+}
+
+/**
+ * Estimated USD cost of a generation, or undefined when usage or price is unknown.
+ * Local models are free.
+ */
+export function estimateCost(
+  usage: TokenUsage | undefined,
+  model: string,
+  provider: string,
+  prices: ModelPriceTable
+): number | undefined {
+  if (!usage) return undefined;
+  if (provider === "local" || provider === "mock") return 0;
+  const price = findModelPrice(model, prices);
+  if (!price) return undefined;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** "$0.0042", "$1.23", or "<$0.0001" for tiny non-zero amounts */
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  if (cost < 0.0001) return "<$0.0001";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/** "850" or "12.3k" */
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
@@ -0,0 +1,315 @@
+// ============================================================================
+// PROMPT LINTER - local coverage score and style contradiction check
+// ============================================================================
+// The long-form length instruction asks for subject, environment, lighting,
+// atmosphere, style, colors, composition and textures. This checks what a
+// generated prompt actually delivered, without another API call. Keyword
+// dictionaries are read from the visual templates in promptTemplates.ts (the
+// "**LIGHTING KEYWORDS:**" sections and "- Palette: ..." lines), so new
+// vocabulary added to a template is picked up here too.
+
+import { promptTemplates, templateCategories, getForbiddenStyles } from "./promptTemplates";
+import { extractMidjourneyParams, splitNegativePrompt } from "./platformFormatters";
+
+export const COVERAGE_DIMENSIONS = [
+  "subject",
+  "environment",
+  "lighting",
+  "atmosphere",
+  "style",
+  "colors",
+  "composition",
+  "textures",
+] as const;
+
+export type CoverageDimension = typeof COVERAGE_DIMENSIONS[number];
+
+export interface StyleContradiction {
+  style: string; // Ruled out by the style requirement, e.g. "photorealistic"
+  term: string; // What the prompt said, e.g. "hyperrealistic"
+}
+
+/** Terms of one template, for composing prompts without a model (see offlineComposer.ts) */
+export interface TemplateVocabulary {
+  terms: Record<CoverageDimension, string[]>;
+  quality: string[]; // "**QUALITY MODIFIERS:**" sections
+  negative: string[]; // "**NEGATIVE PROMPT ...:**" and "Avoid:" sections
+}
+
+export interface PromptLintResult {
+  score: number; // 0-100, share of dimensions covered
+  covered: CoverageDimension[];
+  missing: CoverageDimension[];
+  contradictions: StyleContradiction[];
+}
+
+// Section headers and line labels in the templates, first match wins.
+// "LIGHTING & ATMOSPHERE" counts as lighting; its "- Atmosphere:" lines are
+// labelled and still land in atmosphere.
+const DIMENSION_LABELS: [CoverageDimension, RegExp][] = [
+  ["colors", /COLOU?R|PALETTE|GRADING|TONES/i],
+  ["lighting", /LIGHT|ILLUMINAT/i],
+  ["atmosphere", /ATMOSPHER|MOOD|WEATHER|EMOTION/i],
+  ["textures", /TEXTURE|MATERIAL|SURFACE|FINISH|BRUSHWORK|FABRIC/i],
+  ["composition", /COMPOSITION|FRAMING|ANGLE|CAMERA|SHOT|PERSPECTIVE|DISTANCE|LENS/i],
+  ["environment", /ENVIRONMENT|SETTING|BACKGROUND|LANDSCAPE|INTERIOR|EXTERIOR|LOCATION|\bSET\b/i],
+  ["subject", /CHARACTER|SUBJECT|POSE|PHYSICAL|FACE|HAIR|EYES|COSTUME|OUTFIT|EXPRESSION/i],
+  ["style", /STYL|MEDIUM|MOVEMENT|AESTHETIC|TECHNIQUE|RENDER|ART\b/i],
+];
+
+// Sections whose terms describe what to leave out
+const SKIPPED_SECTIONS = /NEGATIVE|AVOID|QUALITY|OUTPUT/i;
+const QUALITY_SECTION = /QUALITY/i;
+const NEGATIVE_SECTION = /NEGATIVE|AVOID/i;
+
+// Plain words the templates take for granted, mostly from the long-form list
+// in generatePrompt.ts ("Lighting: Type, direction, color, shadows, ...")
+const BASE_KEYWORDS: Record<CoverageDimension, string[]> = {
+  subject: [
+    "person", "woman", "man", "girl", "boy", "child", "character", "figure", "creature", "animal",
+    "pose", "posing", "expression", "wearing", "dressed", "clothing", "outfit", "holding", "standing", "sitting",
+  ],
+  environment: [
+    "background", "foreground", "setting", "surroundings", "backdrop", "landscape", "scene", "city", "street",
+    "forest", "room", "interior", "sky", "mountains", "ocean", "beach", "desert", "field", "indoors", "outdoors",
+  ],
+  lighting: [
+    "light", "lights", "lighting", "lit", "sunlight", "moonlight", "glow", "glowing", "shadows", "highlights",
+    "reflections", "backlit", "illuminated", "rim light",
+  ],
+  atmosphere: [
+    "mood", "moody", "atmosphere", "atmospheric", "ambiance", "ambience", "serene", "mysterious", "dreamy",
+    "ethereal", "melancholic", "cozy", "tranquil", "dramatic", "fog", "mist", "haze", "dawn", "dusk", "sunset",
+    "sunrise", "night",
+  ],
+  style: [
+    "style", "aesthetic", "render", "rendered", "illustration", "painting", "photograph", "photography", "anime",
+    "realistic", "photorealistic", "cinematic", "watercolor", "digital art", "concept art", "pixel art",
+  ],
+  colors: [
+    "color", "colors", "colour", "colours", "palette", "tones", "hues", "saturated", "saturation", "contrast",
+    "monochrome", "monochromatic", "pastel", "vibrant", "muted", "red", "blue", "green", "gold", "golden", "teal",
+    "orange", "purple", "pink", "amber", "crimson", "silver",
+  ],
+  composition: [
+    "composition", "framing", "framed", "close-up", "shot", "angle", "perspective", "depth of field", "bokeh",
+    "focus", "rule of thirds", "wide angle", "centered", "symmetrical", "lens",
+  ],
+  textures: [
+    "texture", "textures", "textured", "material", "materials", "surface", "surfaces", "fabric", "metal",
+    "metallic", "wood", "wooden", "stone", "glass", "leather", "silk", "velvet", "skin", "rough", "smooth",
+    "glossy", "matte", "grain", "pattern", "patterns",
+  ],
+};
+
+// Terms that give away a ruled-out style, keyed by the "NO ..." clause of
+// the style requirement. Clauses not listed here are matched literally.
+const STYLE_CONFLICT_TERMS: Record<string, string[]> = {
+  photorealistic: ["photorealistic", "photorealism", "photo-realistic", "hyperrealistic", "hyperrealism", "raw photo", "dslr"],
+  realistic: ["realistic", "photorealistic", "photorealism", "hyperrealistic", "lifelike"],
+  "3d render": ["3d render", "3d rendered", "cgi", "octane render", "unreal engine", "blender"],
+  anime: ["anime", "manga", "cel shading", "cel-shaded"],
+  illustration: ["illustration", "illustrated", "concept art", "cartoon"],
+  "2d illustration": ["2d illustration", "flat illustration", "hand-drawn", "cel shading"],
+  "painting styles": ["oil painting", "watercolor", "acrylic painting", "impressionist", "brushstrokes"],
+  digital: ["digital art", "digital painting", "digital illustration", "cgi", "3d render"],
+  photography: ["photography", "photograph", "photo", "dslr", "raw photo", "shot on"],
+  "high-poly": ["high-poly", "high poly"],
+  "live action": ["live action", "live-action", "real actors"],
+};
+
+// A ruled-out term right after one of these is the prompt agreeing with the rule
+const NEGATIONS = new Set(["no", "not", "non", "without", "avoid", "never"]);
+
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_WORDS = 4; // Longer entries are instructions, not vocabulary
+
+/** Lowercase words separated by single spaces, hyphens and apostrophes kept */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'/-]+/gu, " ")
+    .trim();
+}
+
+/** Vocabulary terms of a comma list, dropping a leading "Specify palette:" style lead-in */
+function splitTerms(list: string): string[] {
+  return list
+    .slice(list.lastIndexOf(":") + 1)
+    .split(",")
+    .map((rawTerm) => normalize(rawTerm.replace(/\([^)]*\)/g, "").replace(/["“”]/g, "")))
+    .filter((term) => term.length >= MIN_TERM_LENGTH && term.split(" ").length <= MAX_TERM_WORDS && !/^e\.?g\b/.test(term));
+}
+
+/**
+ * Add the template's terms to `dictionaries`. Quality and negative sections
+ * are skipped for coverage, but collected into `extras` when given.
+ */
+function collectTemplateTerms(
+  template: string,
+  dictionaries: Record<CoverageDimension, Set<string>>,
+  extras?: { quality: Set<string>; negative: Set<string> }
+) {
+  let sectionDimension: CoverageDimension | undefined;
+  let skipSection = false;
+  let extraSection: Set<string> | undefined;
+
+  for (const rawLine of template.split("\n")) {
+    const line = rawLine.trim();
+    const header = /^\*\*(.+?)\*\*$/.exec(line);
+    if (header || line.startsWith("===")) {
+      const title = header ? header[1] : line;
+      skipSection = SKIPPED_SECTIONS.test(title);
+      sectionDimension = DIMENSION_LABELS.find(([, pattern]) => pattern.test(title))?.[0];
+      extraSection = QUALITY_SECTION.test(title) ? extras?.quality : NEGATIVE_SECTION.test(title) ? extras?.negative : undefined;
+      continue;
+    }
+    if (!line) continue;
+    if (skipSection) {
+      splitTerms(line.replace(/^-\s*/, "")).forEach((term) => extraSection?.add(term));
+      continue;
+    }
+
+    // "- Palette: warm golden tones, ..." or a bare comma list under the header
+    const labelled = /^-\s*([^:]{1,40}):\s*(.+)$/.exec(line);
+    const label = labelled?.[1] ?? "";
+    const dimension = (label && DIMENSION_LABELS.find(([, pattern]) => pattern.test(label))?.[0]) || sectionDimension;
+    if (!dimension) continue;
+
+    const list = labelled ? labelled[2] : line.replace(/^-\s*/, "");
+    for (const term of splitTerms(list)) {
+      dictionaries[dimension].add(term);
+    }
+  }
+}
+
+function emptyDictionaries(): Record<CoverageDimension, Set<string>> {
+  return Object.fromEntries(COVERAGE_DIMENSIONS.map((dimension) => [dimension, new Set<string>()])) as Record<CoverageDimension, Set<string>>;
+}
+
+function buildDictionaries(): Record<CoverageDimension, Set<string>> {
+  const dictionaries = Object.fromEntries(
+    COVERAGE_DIMENSIONS.map((dimension) => [dimension, new Set(BASE_KEYWORDS[dimension])])
+  ) as Record<CoverageDimension, Set<string>>;
+
+  const visualTemplates = [...templateCategories.image, ...templateCategories.video, ...templateCategories.design];
+  for (const key of visualTemplates) {
+    const template = promptTemplates[key];
+    if (template) collectTemplateTerms(template, dictionaries);
+  }
+  return dictionaries;
+}
+
+let dictionaries: Record<CoverageDimension, Set<string>> | null = null;
+
+/** Keyword dictionaries per dimension, built from the templates on first use */
+export function getCoverageDictionaries(): Record<CoverageDimension, Set<string>> {
+  if (!dictionaries) {
+    dictionaries = buildDictionaries();
+  }
+  return dictionaries;
+}
+
+const vocabularies = new Map<string, TemplateVocabulary>();
+
+/**
+ * Terms of a single template (a promptTemplates key), without the base
+ * keywords. Unlike the coverage dictionaries this keeps the quality and
+ * negative sections.
+ */
+export function getTemplateVocabulary(templateKey: string): TemplateVocabulary {
+  let vocabulary = vocabularies.get(templateKey);
+  if (!vocabulary) {
+    const terms = emptyDictionaries();
+    const extras = { quality: new Set<string>(), negative: new Set<string>() };
+    collectTemplateTerms(promptTemplates[templateKey] ?? "", terms, extras);
+    vocabulary = {
+      terms: Object.fromEntries(COVERAGE_DIMENSIONS.map((dimension) => [dimension, [...terms[dimension]]])) as Record<CoverageDimension, string[]>,
+      quality: [...extras.quality],
+      negative: [...extras.negative],
+    };
+    vocabularies.set(templateKey, vocabulary);
+  }
+  return vocabulary;
+}
+
+/** Coverage only means something for visual prompts; text and music types are skipped */
+export function isLintablePromptType(type: string): boolean {
+  return type.startsWith("image") || type.startsWith("video") || type === "3d" || type === "art";
+}
+
+/** Word-boundary match on normalized text padded with spaces */
+function containsTerm(padded: string, term: string): boolean {
+  return padded.includes(` ${term} `);
+}
+
+function findAffirmedTerm(padded: string, term: string): boolean {
+  const needle = ` ${term} `;
+  let index = padded.indexOf(needle);
+  while (index !== -1) {
+    const previousWord = padded.slice(0, index).split(" ").pop() ?? "";
+    if (!NEGATIONS.has(previousWord)) return true;
+    index = padded.indexOf(needle, index + 1);
+  }
+  return false;
+}
+
+/** First term in `padded` that gives away the ruled-out `style` */
+function findConflictingTerm(padded: string, style: string): string | undefined {
+  const terms = STYLE_CONFLICT_TERMS[style] ?? [normalize(style)];
+  return terms.find((candidate) => findAffirmedTerm(padded, candidate));
+}
+
+/** True when `text` names a style the style requirement of `promptType` rules out */
+export function contradictsStyle(text: string, promptType: string): boolean {
+  const padded = ` ${normalize(text)} `;
+  return getForbiddenStyles(promptType).some((style) => findConflictingTerm(padded, style) !== undefined);
+}
+
+/** Words from the user's idea that name the subject (short words are skipped) */
+function ideaWords(idea: string): string[] {
+  return normalize(idea).split(" ").filter((word) => word.length >= 4);
+}
+
+/**
+ * Score a generated prompt for coverage of the eight long-form dimensions
+ * and list any terms that contradict the style requirement of `promptType`.
+ * The negative prompt and --no parameters are ignored, since naming a style
+ * there is how a prompt rules it out.
+ */
+export function lintPrompt(prompt: string, promptType: string, idea = ""): PromptLintResult {
+  const { positive } = splitNegativePrompt(prompt);
+  const padded = ` ${normalize(extractMidjourneyParams(positive).text)} `;
+  const dictionaries = getCoverageDictionaries();
+
+  const covered: CoverageDimension[] = [];
+  const missing: CoverageDimension[] = [];
+  for (const dimension of COVERAGE_DIMENSIONS) {
+    let hit = false;
+    for (const term of dictionaries[dimension]) {
+      if (containsTerm(padded, term)) {
+        hit = true;
+        break;
+      }
+    }
+    if (!hit && dimension === "subject") {
+      hit = ideaWords(idea).some((word) => containsTerm(padded, word));
+    }
+    (hit ? covered : missing).push(dimension);
+  }
+
+  const contradictions: StyleContradiction[] = [];
+  for (const style of getForbiddenStyles(promptType)) {
+    const term = findConflictingTerm(padded, style);
+    if (term) {
+      contradictions.push({ style, term });
+    }
+  }
+
+  return {
+    score: Math.round((covered.length / COVERAGE_DIMENSIONS.length) * 100),
+    covered,
+    missing,
+    contradictions,
+  };
+}
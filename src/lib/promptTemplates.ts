@@ -1527,10 +1527,40 @@ const styleInstructions: Record<string, string> = {
   "video-timelapse": "MANDATORY STYLE: This MUST be timelapse or hyperlapse. Show passage of time, compressed hours/days, smooth accelerated movement.",
 };
 
-export function getPromptTemplate(type: string, userInput: string): string {
-  // Map the type to the correct template key
+// What breaks each style's look: the style-specific part of its negative prompt
+const styleNegatives: Record<string, string> = {
+  "image-realistic": "cartoon, anime, illustration, painting, drawing, cgi, 3d render, plastic skin, airbrushed, oversaturated",
+  "image-anime": "photorealistic, photograph, 3d render, realistic skin texture, western cartoon, sketchy lines, muddy colors",
+  "image-3d": "2d illustration, flat shading, sketch, photograph, painting, noisy render, texture stretching, broken geometry",
+  "image-painting": "digital art, 3d render, photograph, anime, vector art, smooth gradients, plastic look",
+  "image-photography": "illustration, anime, cartoon, painting, cgi, overprocessed hdr, oversaturated, plastic skin",
+  "image-illustration": "photograph, photorealistic, 3d render, amateur sketch, messy lines, muddy colors",
+  "image-pixel-art": "photorealistic, high resolution, smooth gradients, anti-aliasing, blurry pixels, 3d render, high-poly",
+  "3d": "2d illustration, flat shading, sketch, noisy render, texture stretching, broken geometry",
+  "art": "digital art, 3d render, photograph, vector art, plastic look",
+};
+
+/** Image, 3D and art prompts come with a negative prompt; video and text prompts don't */
+export function takesNegativePrompt(type: string): boolean {
+  return type.startsWith("image") || type === "3d" || type === "art";
+}
+
+/**
+ * Terms that would break the look of `type` ("image-anime" -> "photorealistic",
+ * "3d render", ...). Empty for types with style freedom.
+ */
+export function getStyleNegatives(type: string): string[] {
+  return (styleNegatives[type] || "").split(",").map((term) => term.trim()).filter(Boolean);
+}
+
+/** Key in promptTemplates used for a prompt type ("image-anime" -> "anime_illustration") */
+export function getTemplateKey(type: string): string {
   const templateKey = promptTypeMapping[type] || type;
-  const template = promptTemplates[templateKey] || promptTemplates.custom;
+  return promptTemplates[templateKey] ? templateKey : "custom";
+}
+
+export function getPromptTemplate(type: string, userInput: string): string {
+  const template = promptTemplates[getTemplateKey(type)];
   
   // Get style-specific instruction if available
   const styleInstruction = styleInstructions[type] || "";
@@ -1549,6 +1579,89 @@ export function getPromptTemplate(type: string, userInput: string): string {
   return finalTemplate;
 }
 
+/** The STYLE REQUIREMENT text for `type`; empty for types without one */
+export function getStyleInstruction(type: string): string {
+  return styleInstructions[type] || "";
+}
+
+/**
+ * Styles the style requirement for `type` rules out, taken from its
+ * "NO anime, NO 3D render" clauses. Empty for types with style freedom.
+ */
+export function getForbiddenStyles(type: string): string[] {
+  const styleInstruction = styleInstructions[type] || "";
+  return Array.from(styleInstruction.matchAll(/\bNO ([^,.]+)/g), (m) => m[1].trim().toLowerCase());
+}
+
+/**
+ * Style keywords named by the style requirement for `type`: the "MUST be ..."
+ * style itself, then the "Use ..." and "Think ..." lists ("anime/manga style",
+ * "cel shading", "vibrant anime colors"). Empty for types with style freedom.
+ */
+export function getStyleKeywords(type: string): string[] {
+  const styleInstruction = styleInstructions[type] || "";
+  const keywords: string[] = [];
+  for (const sentence of styleInstruction.split(/\.\s+/)) {
+    const match = /(?:MUST (?:be|look like|feature)|^Use|^Emphasize|^Think)\s+(.+)/.exec(sentence);
+    if (!match) continue;
+    for (const item of match[1].replace(/\.$/, "").split(/,|\/| or /)) {
+      const keyword = item.trim().replace(/\s+(terms|terminology)$/i, "");
+      if (keyword && !/\b(settings|terminology)\b/i.test(keyword)) {
+        keywords.push(keyword.toLowerCase());
+      }
+    }
+  }
+  return [...new Set(keywords)];
+}
+
+// Enhance mode: {input} is a finished prompt to upgrade, not a loose idea
+const enhanceTemplate = `You are an expert prompt editor for AI image and video generators (Midjourney, Stable Diffusion XL, DALL-E 3, Flux, Runway, Sora). The user already has a working prompt and wants it UPGRADED, not replaced. Here is their prompt:
+
+"{input}"
+
+=== WHAT TO IMPROVE ===
+- Lighting: replace vague lighting with precise terms (direction, quality, color temperature), e.g. golden hour sunlight, soft diffused light, rim light, volumetric god rays, chiaroscuro, neon glow
+- Composition: fix or add framing, camera angle and depth, e.g. rule of thirds, low angle shot, close-up portrait, shallow depth of field, leading lines, centered composition
+- Detail: turn weak or generic descriptors into concrete visual ones (materials, textures, colors, atmosphere)
+- Order: most important elements first; remove redundant, repeated or conflicting terms
+- Length: expand or condense to the requested length
+
+=== WHAT TO KEEP ===
+- The SUBJECT, its identity and its action MUST stay exactly the same - do not add or remove characters or objects
+- Keep the user's style and medium unless it conflicts with the style requirement below
+- Keep the same syntax family: comma-separated tags stay tags, sentences stay sentences, (term:1.2) weights and --parameters stay in place
+{keyPhrases}
+=== IP SAFETY ===
+Replace real people's names, copyrighted characters, artist names and brand names with generic descriptions, even if they were in the original prompt.
+
+=== OUTPUT FORMAT ===
+Output ONLY the enhanced prompt. No explanations, no list of changes, no markdown.`;
+
+/**
+ * Build the user message for enhance mode. `keyPhrases` (see extractKeyPhrases)
+ * are listed as must-keep text; pass an empty list to let the model reword freely.
+ */
+export function getEnhanceTemplate(type: string, existingPrompt: string, keyPhrases: string[] = []): string {
+  const styleInstruction = styleInstructions[type] || "";
+  const keyPhraseBlock = keyPhrases.length > 0
+    ? `\n=== KEY PHRASES (COPY VERBATIM) ===\nThese exact phrases MUST appear unchanged in the enhanced prompt. Do not reword, translate, split or drop them:\n${keyPhrases.map((phrase) => `- ${phrase}`).join("\n")}\n`
+    : "";
+
+  let finalTemplate = enhanceTemplate
+    .replace("{keyPhrases}", () => keyPhraseBlock)
+    // Function replacer: pasted prompts may contain "$&" and similar sequences
+    .replace("{input}", () => existingPrompt);
+
+  if (styleInstruction) {
+    finalTemplate = finalTemplate.replace(
+      "=== OUTPUT FORMAT ===",
+      `=== STYLE REQUIREMENT (CRITICAL) ===\n${styleInstruction}\n\n=== OUTPUT FORMAT ===`
+    );
+  }
+
+  return finalTemplate;
+}
+
 export type PromptTemplateType = keyof typeof promptTemplates;
 
 export const templateCategories = {
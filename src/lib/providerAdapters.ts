@@ -0,0 +1,853 @@
+// ============================================================================
+// PROVIDER ADAPTERS - one place for everything provider-specific
+// ============================================================================
+// Each supported API is described by a ProviderAdapter: how to build a
+// completion request, how to read the response (streamed or not), how its
+// finish reasons map onto ours, how to list models and check a key. The
+// generator, useModels, the Settings page and sanitize.ts look providers up
+// in the registry below instead of switching on the provider id, so adding a
+// provider means registering one adapter.
+
+import { ReferenceImage, toDataUrl } from "./referenceImage";
+import { mockFetch, MOCK_MODELS, DEFAULT_MOCK_MODEL, MOCK_SHAPE_HEADER } from "./mockProvider";
+
+export type ApiProvider = "openai" | "gemini" | "openrouter" | "groq" | "anthropic" | "local" | "custom" | "mock";
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/** Tokens billed for one generation, summed over any continuation requests */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Why the provider stopped. "length" is the output token limit (Gemini
+ * MAX_TOKENS, OpenAI-compatible length, Anthropic max_tokens) and triggers a
+ * continuation request.
+ */
+export type FinishReason = "stop" | "length" | "other";
+
+export interface ChatTurn {
+  role: "assistant" | "user";
+  content: string;
+}
+
+/** Provider-neutral sampling values; each adapter sends the ones its API accepts */
+export interface SamplingParams {
+  temperature: number;
+  top_p: number;
+  top_k: number;
+}
+
+/** JSON schema for structured output, written OpenAI-style (lower-case types) */
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  systemContent: string;
+  userContent: string;
+  image?: ReferenceImage; // Sent with the first user turn
+  followUps: ChatTurn[]; // Refinement and continuation turns after the first user turn
+  maxTokens: number;
+  sampling: SamplingParams;
+  responseSchema?: ResponseSchema; // Only passed when supportsStructuredOutput is set
+  stream: boolean;
+}
+
+/** What buildRequest returns; sent as a JSON POST */
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface CompletionResult {
+  text: string;
+  finishReason?: FinishReason;
+  usage?: TokenUsage;
+}
+
+export interface KeyValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface ProviderAdapter {
+  id: ApiProvider;
+  name: string;
+  description: string; // Short list of model families for the provider picker
+  keyUrl?: string; // Where to get an API key
+  defaultBaseUrl: string; // Empty when the user always supplies one
+  /**
+   * "fixed" always uses defaultBaseUrl, "custom" takes any HTTPS URL from the
+   * user and "local" takes a loopback URL (plain HTTP allowed)
+   */
+  baseUrlPolicy: "fixed" | "custom" | "local";
+  apiHosts: string[]; // Added to the sanitizer's allowed API domains
+  keyPattern?: RegExp; // Expected key format; a mismatch is only warned about
+  requiresKey: boolean;
+  supportsStructuredOutput: boolean; // Native JSON-schema mode
+  longFormSampling: boolean; // Use the lower long-form temperatures for 300+ word prompts
+  modelIdPlaceholder?: string; // Set when the model is typed as an ID rather than picked from a list
+  getDefaultModel(promptLength?: number): string;
+  buildRequest(request: CompletionRequest): ProviderRequest;
+  parseResponse(data: unknown): CompletionResult;
+  /** Read a streamed response, passing each text delta to onToken */
+  parseStream(response: Response, onToken: (delta: string) => void): Promise<CompletionResult>;
+  mapFinishReason(reason?: string | null): FinishReason | undefined;
+  listModels(apiKey: string, baseUrl: string): Promise<ModelInfo[]>;
+  validateKey(apiKey: string, baseUrl: string): Promise<KeyValidationResult>;
+  /** Answers requests in place of fetch; only set by providers that never touch the network */
+  send?(url: string, init: RequestInit): Promise<Response>;
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+export function toTokenUsage(input?: number, output?: number, total?: number): TokenUsage | undefined {
+  if (input === undefined && output === undefined && total === undefined) return undefined;
+  const inputTokens = input ?? 0;
+  const outputTokens = output ?? 0;
+  return { inputTokens, outputTokens, totalTokens: total ?? inputTokens + outputTokens };
+}
+
+/**
+ * Read a Server-Sent Events response body and hand each JSON `data:` payload
+ * to `onData`. Used for OpenAI-compatible `stream: true`, Gemini
+ * `streamGenerateContent?alt=sse` and Anthropic streams. Stops at the OpenAI
+ * `[DONE]` sentinel; comment lines and malformed payloads are skipped.
+ */
+async function readEventStream<T>(response: Response, onData: (data: T) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming responses are not supported in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Keep the trailing partial line in the buffer until more data arrives
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? "" : lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (!payload) continue;
+      if (payload === "[DONE]") return;
+
+      let data: T & { error?: { message?: string } };
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      // Some gateways (OpenRouter) report failures inside the stream
+      if (data?.error) {
+        throw new Error(data.error.message || 'Streaming error from API');
+      }
+      onData(data);
+    }
+
+    if (done) return;
+  }
+}
+
+// Model list responses, with only the fields the adapters read
+
+/** OpenAI-compatible /models entry; OpenRouter adds name and description */
+interface OpenAIModelEntry {
+  id: string;
+  name?: string;
+  description?: string;
+}
+
+interface OpenAIModelList {
+  data?: OpenAIModelEntry[];
+}
+
+/** Ollama's native /api/tags */
+interface OllamaTagList {
+  models?: { name: string; details?: { parameter_size?: string } }[];
+}
+
+interface GeminiModelList {
+  models?: {
+    name?: string; // "models/gemini-1.5-pro"
+    displayName?: string;
+    description?: string;
+    supportedGenerationMethods?: string[];
+  }[];
+}
+
+interface AnthropicModelList {
+  data?: { id: string; display_name?: string }[];
+}
+
+/** GET a models endpoint and return its JSON, throwing the provider's error message on failure */
+async function fetchModelsJson<T>(url: string, headers: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const errorData: { error?: { message?: string } } = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `Failed to fetch models: ${response.status}`);
+  }
+  return response.json();
+}
+
+/** A key is valid when the provider lets it list models */
+async function checkModelsEndpoint(url: string, headers: Record<string, string>): Promise<KeyValidationResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+    if (response.ok) {
+      return { valid: true };
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      valid: false,
+      error: errorData.error?.message || `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/** Convert an OpenAI-style JSON schema to Gemini's OpenAPI subset (upper-case types, no additionalProperties) */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "additionalProperties") continue;
+    if (key === "type" && typeof value === "string") {
+      result.type = value.toUpperCase();
+    } else if (key === "items" && value && typeof value === "object") {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else if (key === "properties" && value && typeof value === "object") {
+      const properties = value as Record<string, Record<string, unknown>>;
+      result.properties = Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+      // Gemini otherwise orders fields alphabetically; keep the prompt first
+      result.propertyOrdering = Object.keys(properties);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// OPENAI-COMPATIBLE (OpenAI, OpenRouter, Groq, Local, Custom)
+// ============================================================================
+
+interface OpenAIChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// Streaming chunks swap message for delta
+interface OpenAIChatResponse {
+  choices?: {
+    message?: { content?: string };
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAIChatUsage | null;
+  x_groq?: { usage?: OpenAIChatUsage }; // Groq reports streaming usage here
+}
+
+type OpenAICompatibleConfig = Pick<
+  ProviderAdapter,
+  "id" | "name" | "description" | "keyUrl" | "defaultBaseUrl" | "baseUrlPolicy" | "apiHosts" | "keyPattern" |
+  "requiresKey" | "supportsStructuredOutput" | "modelIdPlaceholder"
+> & {
+  defaultModel: string;
+  streamUsage?: boolean; // Accepts stream_options.include_usage
+  mapModel?: (model: OpenAIModelEntry) => ModelInfo | null; // null drops the entry
+  listModels?: ProviderAdapter["listModels"];
+};
+
+function bearerHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function mapOpenAIFinishReason(reason?: string | null): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === "length") return "length";
+  return reason === "stop" ? "stop" : "other";
+}
+
+function parseOpenAIResponse(data: OpenAIChatResponse): CompletionResult {
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    finishReason: mapOpenAIFinishReason(data.choices?.[0]?.finish_reason),
+    usage: toTokenUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens, data.usage?.total_tokens),
+  };
+}
+
+function createOpenAICompatibleAdapter(config: OpenAICompatibleConfig): ProviderAdapter {
+  const { defaultModel, streamUsage = false, mapModel, listModels, ...info } = config;
+
+  return {
+    ...info,
+    longFormSampling: false,
+    getDefaultModel: () => defaultModel,
+
+    buildRequest({ apiKey, baseUrl, model, systemContent, userContent, image, followUps, maxTokens, sampling, responseSchema, stream }) {
+      return {
+        url: `${baseUrl}/chat/completions`,
+        headers: bearerHeaders(apiKey),
+        body: {
+          model,
+          messages: [
+            { role: "system", content: systemContent },
+            {
+              role: "user",
+              content: image
+                ? [
+                    { type: "text", text: userContent },
+                    { type: "image_url", image_url: { url: toDataUrl(image) } },
+                  ]
+                : userContent,
+            },
+            ...followUps,
+          ],
+          max_tokens: maxTokens,
+          // top_k is not standard in the OpenAI API, only some providers support it
+          temperature: sampling.temperature,
+          top_p: sampling.top_p,
+          ...(stream && { stream: true }),
+          ...(stream && streamUsage && { stream_options: { include_usage: true } }),
+          ...(responseSchema && {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: responseSchema.name, strict: true, schema: responseSchema.schema },
+            },
+          }),
+        },
+      };
+    },
+
+    parseResponse: (data) => parseOpenAIResponse(data as OpenAIChatResponse),
+
+    async parseStream(response, onToken) {
+      // Accumulate choices[0].delta.content and rebuild a chat.completion shape
+      let text = "";
+      let finishReason: string | undefined;
+      let usage: OpenAIChatUsage | null | undefined;
+      await readEventStream<OpenAIChatResponse>(response, (chunk) => {
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content || "";
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+        // With include_usage the last chunk has empty choices and the usage block
+        usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+      });
+      return parseOpenAIResponse({ choices: [{ message: { content: text }, finish_reason: finishReason }], usage });
+    },
+
+    mapFinishReason: mapOpenAIFinishReason,
+
+    listModels: listModels ?? (async (apiKey, baseUrl) => {
+      // OpenAI-compatible format { data: [{ id, ... }] }
+      const data = await fetchModelsJson<OpenAIModelList>(`${baseUrl}/models`, bearerHeaders(apiKey));
+      return (data.data || [])
+        .map((m) => (mapModel ? mapModel(m) : { id: m.id, name: m.id }))
+        .filter((m): m is ModelInfo => !!m);
+    }),
+
+    validateKey: (apiKey, baseUrl) => checkModelsEndpoint(`${baseUrl}/models`, bearerHeaders(apiKey)),
+  };
+}
+
+/**
+ * List models from a local server. Tries the OpenAI-style /models endpoint
+ * (LM Studio, Ollama >= 0.1.24) and falls back to Ollama's native /api/tags.
+ */
+async function fetchLocalModels(apiKey: string, baseUrl: string): Promise<ModelInfo[]> {
+  const headers = bearerHeaders(apiKey);
+
+  try {
+    const response = await fetch(`${baseUrl}/models`, { headers });
+    if (response.ok) {
+      const data: OpenAIModelList = await response.json();
+      if (Array.isArray(data.data)) {
+        return data.data.map((m) => ({ id: m.id, name: m.id }));
+      }
+    }
+  } catch {
+    // Fall through to the Ollama endpoint
+  }
+
+  // /api/tags lives at the server root, not under /v1
+  const origin = new URL(baseUrl).origin;
+  const data = await fetchModelsJson<OllamaTagList>(`${origin}/api/tags`, headers);
+  // Ollama returns { models: [{ name: "llama3.2:latest", details: { parameter_size } }] }
+  return (data.models || []).map((m) => ({
+    id: m.name,
+    name: m.name,
+    description: m.details?.parameter_size,
+  }));
+}
+
+const openaiAdapter = createOpenAICompatibleAdapter({
+  id: "openai",
+  name: "OpenAI",
+  description: "GPT-4o, GPT-4, etc.",
+  keyUrl: "https://platform.openai.com/api-keys",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  baseUrlPolicy: "fixed",
+  apiHosts: ["api.openai.com"],
+  keyPattern: /^sk-[a-zA-Z0-9_-]{20,}$/, // sk-xxx...
+  requiresKey: true,
+  supportsStructuredOutput: true,
+  defaultModel: "gpt-4o-mini",
+  streamUsage: true,
+  // Only chat models (gpt, o1, o3)
+  mapModel: (m) => {
+    const id = m.id || "";
+    return id.includes("gpt") || id.includes("o1") || id.includes("o3") ? { id, name: id } : null;
+  },
+});
+
+const openrouterAdapter = createOpenAICompatibleAdapter({
+  id: "openrouter",
+  name: "OpenRouter",
+  description: "Multi-provider gateway",
+  keyUrl: "https://openrouter.ai/keys",
+  defaultBaseUrl: "https://openrouter.ai/api/v1",
+  baseUrlPolicy: "fixed",
+  apiHosts: ["openrouter.ai"],
+  keyPattern: /^sk-or-v1-[a-zA-Z0-9]{40,}$/, // sk-or-v1-xxx
+  requiresKey: true,
+  supportsStructuredOutput: false,
+  // Hundreds of models; typing the ID is quicker than scrolling a dropdown
+  modelIdPlaceholder: "e.g. openai/gpt-4o, anthropic/claude-3.5-sonnet",
+  defaultModel: "openai/gpt-4o-mini",
+  streamUsage: true,
+  mapModel: (m) => ({ id: m.id, name: m.name || m.id, description: m.description }),
+});
+
+const groqAdapter = createOpenAICompatibleAdapter({
+  id: "groq",
+  name: "Groq",
+  description: "Llama, Mixtral, etc.",
+  keyUrl: "https://console.groq.com/keys",
+  defaultBaseUrl: "https://api.groq.com/openai/v1",
+  baseUrlPolicy: "fixed",
+  apiHosts: ["api.groq.com"],
+  keyPattern: /^gsk_[a-zA-Z0-9]{40,}$/, // gsk_xxx
+  requiresKey: true,
+  supportsStructuredOutput: false,
+  defaultModel: "llama-3.3-70b-versatile",
+  // Only text generation models
+  mapModel: (m) => {
+    const id = m.id || "";
+    return id.includes("whisper") || id.includes("distil") ? null : { id, name: id };
+  },
+});
+
+const localAdapter = createOpenAICompatibleAdapter({
+  id: "local",
+  name: "Local",
+  description: "Ollama, LM Studio",
+  // Default for Ollama's OpenAI-compatible API; the user can point it at
+  // LM Studio (http://127.0.0.1:1234/v1) or another loopback server
+  defaultBaseUrl: "http://localhost:11434/v1",
+  baseUrlPolicy: "local",
+  apiHosts: [],
+  // Local servers (Ollama, LM Studio) usually run without authentication
+  requiresKey: false,
+  supportsStructuredOutput: false,
+  defaultModel: "llama3.2",
+  listModels: fetchLocalModels,
+});
+
+const customAdapter = createOpenAICompatibleAdapter({
+  id: "custom",
+  name: "Custom",
+  description: "Your own models",
+  defaultBaseUrl: "",
+  baseUrlPolicy: "custom",
+  apiHosts: [],
+  requiresKey: true,
+  supportsStructuredOutput: false,
+  defaultModel: "gpt-3.5-turbo",
+});
+
+// ============================================================================
+// GEMINI
+// ============================================================================
+
+// Streaming chunks repeat the full structure with partial text
+interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+function mapGeminiFinishReason(reason?: string | null): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === "MAX_TOKENS") return "length";
+  return reason === "STOP" ? "stop" : "other";
+}
+
+function parseGeminiResponse(data: GeminiResponse): CompletionResult {
+  const usageMetadata = data.usageMetadata;
+  // { candidates: [{ content: { parts: [{ text: "..." }] } }] }
+  return {
+    text: data.candidates?.[0]?.content?.parts?.[0]?.text || "",
+    finishReason: mapGeminiFinishReason(data.candidates?.[0]?.finishReason),
+    usage: toTokenUsage(usageMetadata?.promptTokenCount, usageMetadata?.candidatesTokenCount, usageMetadata?.totalTokenCount),
+  };
+}
+
+const geminiAdapter: ProviderAdapter = {
+  id: "gemini",
+  name: "Google Gemini",
+  description: "Gemini Pro, Flash, etc.",
+  keyUrl: "https://aistudio.google.com/apikey",
+  defaultBaseUrl: "https://generativelanguage.googleapis.com/v1beta",
+  baseUrlPolicy: "fixed",
+  apiHosts: ["generativelanguage.googleapis.com"],
+  keyPattern: /^AIza[a-zA-Z0-9_-]{35,}$/, // AIzaSy...
+  requiresKey: true,
+  supportsStructuredOutput: true,
+  // High temperatures cause repetition loops that hit MAX_TOKENS early on long prompts
+  longFormSampling: true,
+
+  getDefaultModel(promptLength) {
+    // For long-form content (300+ words), prefer gemini-2.5-flash which has
+    // 65K output token limit and better handling of long content.
+    // gemini-2.0-flash has 8K limit and known truncation issues.
+    // NOTE: User can override this by selecting a specific model in settings.
+    if (promptLength && promptLength >= 300) {
+      return "gemini-2.5-flash";
+    }
+    return "gemini-2.0-flash";
+  },
+
+  buildRequest({ apiKey, baseUrl, model, systemContent, userContent, image, followUps, maxTokens, sampling, responseSchema, stream }) {
+    return {
+      url: stream
+        ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+        : `${baseUrl}/models/${model}:generateContent?key=${apiKey}`,
+      headers: {},
+      body: {
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: userContent },
+              ...(image ? [{ inline_data: { mime_type: image.mimeType, data: image.data } }] : []),
+            ],
+          },
+          ...followUps.map((turn) => ({
+            role: turn.role === "assistant" ? "model" : "user",
+            parts: [{ text: turn.content }],
+          })),
+        ],
+        systemInstruction: {
+          parts: [{ text: systemContent }],
+        },
+        generationConfig: {
+          // Gemini uses camelCase; topK is supported in gemini-2.0-flash and 2.5-flash
+          temperature: sampling.temperature,
+          topP: sampling.top_p,
+          topK: sampling.top_k,
+          candidateCount: 1, // Single focused response reduces truncation issues
+          maxOutputTokens: maxTokens,
+          ...(responseSchema && {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(responseSchema.schema),
+          }),
+        },
+      },
+    };
+  },
+
+  parseResponse: (data) => parseGeminiResponse(data as GeminiResponse),
+
+  async parseStream(response, onToken) {
+    // Each SSE chunk is a partial GenerateContentResponse
+    let text = "";
+    let finishReason: string | undefined;
+    let usage: GeminiResponse["usageMetadata"];
+    await readEventStream<GeminiResponse>(response, (chunk) => {
+      const candidate = chunk.candidates?.[0];
+      const delta = (candidate?.content?.parts || [])
+        .map((part) => part.text || "")
+        .join("");
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      finishReason = candidate?.finishReason ?? finishReason;
+      usage = chunk.usageMetadata ?? usage;
+    });
+    return parseGeminiResponse({
+      candidates: [{ content: { parts: [{ text }] }, finishReason }],
+      usageMetadata: usage,
+    });
+  },
+
+  mapFinishReason: mapGeminiFinishReason,
+
+  async listModels(apiKey, baseUrl) {
+    // { models: [{ name: "models/gemini-1.5-pro", supportedGenerationMethods, ... }] }
+    const data = await fetchModelsJson<GeminiModelList>(`${baseUrl}/models?key=${apiKey}`, {});
+    return (data.models || [])
+      // Only generative models (not embedding, etc.)
+      .filter((m) => (m.name || "").includes("gemini") && m.supportedGenerationMethods?.includes("generateContent"))
+      .map((m) => {
+        const id = (m.name || "").replace("models/", "");
+        return { id, name: m.displayName || id, description: m.description };
+      });
+  },
+
+  validateKey: (apiKey, baseUrl) => checkModelsEndpoint(`${baseUrl}/models?key=${apiKey}`, {}),
+};
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+/** Version pinned for the Anthropic Messages API (sent as `anthropic-version`) */
+export const ANTHROPIC_API_VERSION = "2023-06-01";
+
+/**
+ * Headers for Anthropic requests made straight from the browser.
+ * Anthropic rejects CORS requests unless direct browser access is opted into.
+ */
+export function getAnthropicHeaders(apiKey: string): Record<string, string> {
+  return {
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_API_VERSION,
+    "anthropic-dangerous-direct-browser-access": "true",
+  };
+}
+
+// Messages API. Streaming sends typed events instead: text arrives in
+// content_block_delta.delta.text and the stop reason in message_delta.delta.
+interface AnthropicMessageResponse {
+  type?: string;
+  content?: { type: string; text?: string }[];
+  stop_reason?: string | null;
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  // Non-streaming responses and message_delta carry usage; message_start nests it in message
+  usage?: { input_tokens?: number; output_tokens?: number };
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+}
+
+function mapAnthropicFinishReason(reason?: string | null): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === "max_tokens") return "length";
+  return reason === "end_turn" || reason === "stop_sequence" ? "stop" : "other";
+}
+
+function parseAnthropicResponse(data: AnthropicMessageResponse): CompletionResult {
+  // { content: [{ type: "text", text: "..." }] }
+  const text = (data.content || [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text || "")
+    .join("");
+  return {
+    text,
+    finishReason: mapAnthropicFinishReason(data.stop_reason),
+    usage: toTokenUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+  };
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  name: "Anthropic",
+  description: "Claude Sonnet, Haiku, etc.",
+  keyUrl: "https://console.anthropic.com/settings/keys",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  baseUrlPolicy: "fixed",
+  apiHosts: ["api.anthropic.com"],
+  keyPattern: /^sk-ant-[a-zA-Z0-9_-]{20,}$/, // sk-ant-api03-xxx
+  requiresKey: true,
+  supportsStructuredOutput: false,
+  longFormSampling: false,
+  getDefaultModel: () => "claude-haiku-4-5",
+
+  buildRequest({ apiKey, baseUrl, model, systemContent, userContent, image, followUps, maxTokens, sampling, stream }) {
+    // x-api-key auth, top-level system, content[] blocks
+    return {
+      url: `${baseUrl}/messages`,
+      headers: getAnthropicHeaders(apiKey),
+      body: {
+        model,
+        system: systemContent,
+        messages: [
+          {
+            role: "user",
+            content: image
+              ? [
+                  { type: "image", source: { type: "base64", media_type: image.mimeType, data: image.data } },
+                  { type: "text", text: userContent },
+                ]
+              : userContent,
+          },
+          ...followUps,
+        ],
+        max_tokens: maxTokens,
+        // Claude accepts temperature in 0-1 only, and newer models reject
+        // temperature and top_p together, so send temperature alone
+        temperature: Math.min(sampling.temperature, 1),
+        ...(stream && { stream: true }),
+      },
+    };
+  },
+
+  parseResponse: (data) => parseAnthropicResponse(data as AnthropicMessageResponse),
+
+  async parseStream(response, onToken) {
+    // Collect text_delta events and the final stop_reason from message_delta
+    let text = "";
+    let stopReason: string | undefined;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    await readEventStream<AnthropicMessageResponse>(response, (event) => {
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        const delta = event.delta.text || "";
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      } else if (event.type === "message_start") {
+        inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+      } else if (event.type === "message_delta") {
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+      }
+    });
+    return parseAnthropicResponse({
+      content: [{ type: "text", text }],
+      stop_reason: stopReason,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+    });
+  },
+
+  mapFinishReason: mapAnthropicFinishReason,
+
+  async listModels(apiKey, baseUrl) {
+    // { data: [{ id: "claude-...", display_name, type: "model" }] }
+    const data = await fetchModelsJson<AnthropicModelList>(`${baseUrl}/models?limit=1000`, getAnthropicHeaders(apiKey));
+    return (data.data || []).map((m) => ({
+      id: m.id,
+      name: m.display_name || m.id,
+    }));
+  },
+
+  validateKey: (apiKey, baseUrl) => checkModelsEndpoint(`${baseUrl}/models`, getAnthropicHeaders(apiKey)),
+};
+
+// ============================================================================
+// MOCK (answered locally by mockProvider.ts)
+// ============================================================================
+
+function isGeminiMockModel(model: string): boolean {
+  return MOCK_MODELS.find((m) => m.id === model)?.shape === "gemini";
+}
+
+/**
+ * Requests and responses are the OpenAI or Gemini adapter's own, so the mock
+ * exercises the same parsing. The model picks the shape; responses say which
+ * shape they are (candidates vs choices, or a header on streams).
+ */
+const mockAdapter: ProviderAdapter = {
+  id: "mock",
+  name: "Mock",
+  description: "Local test answers, no key",
+  defaultBaseUrl: "mock://api",
+  baseUrlPolicy: "fixed",
+  apiHosts: [],
+  requiresKey: false,
+  supportsStructuredOutput: true,
+  longFormSampling: false,
+  getDefaultModel: () => DEFAULT_MOCK_MODEL,
+
+  buildRequest: (request) =>
+    (isGeminiMockModel(request.model) ? geminiAdapter : openaiAdapter).buildRequest(request),
+
+  parseResponse: (data) =>
+    ((data as GeminiResponse)?.candidates ? geminiAdapter : openaiAdapter).parseResponse(data),
+
+  parseStream: (response, onToken) =>
+    (response.headers.get(MOCK_SHAPE_HEADER) === "gemini" ? geminiAdapter : openaiAdapter).parseStream(response, onToken),
+
+  mapFinishReason: (reason) =>
+    reason === "STOP" || reason === "MAX_TOKENS" ? mapGeminiFinishReason(reason) : mapOpenAIFinishReason(reason),
+
+  listModels: async () => MOCK_MODELS.map(({ id, name }) => ({ id, name })),
+
+  validateKey: async () => ({ valid: true }),
+
+  send: mockFetch,
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Insertion order is the order providers are listed in Settings
+const adapters = new Map<ApiProvider, ProviderAdapter>();
+
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+[openaiAdapter, geminiAdapter, openrouterAdapter, groqAdapter, anthropicAdapter, localAdapter, customAdapter, mockAdapter]
+  .forEach(registerProviderAdapter);
+
+export function isRegisteredProvider(id: string): id is ApiProvider {
+  return adapters.has(id as ApiProvider);
+}
+
+/** Adapter for a provider; unknown ids get the generic OpenAI-compatible one */
+export function getProviderAdapter(provider: ApiProvider): ProviderAdapter {
+  return adapters.get(provider) ?? customAdapter;
+}
+
+export function getProviderAdapters(): ProviderAdapter[] {
+  return [...adapters.values()];
+}
+
+/** Hosts of every registered hosted API, the sanitizer's default URL whitelist */
+export function getAllowedApiHosts(): string[] {
+  return getProviderAdapters().flatMap((adapter) => adapter.apiHosts);
+}
@@ -0,0 +1,111 @@
+/**
+ * Reference Images - image-to-prompt input for vision-capable models
+ *
+ * Uploaded images are downscaled in the browser before they are base64
+ * encoded, since providers bill image input by resolution and a phone photo
+ * would otherwise cost several times more than the prompt itself. Images are
+ * only kept in memory; history stores the file name.
+ */
+
+export const REFERENCE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp"] as const;
+export type ReferenceImageMimeType = typeof REFERENCE_IMAGE_TYPES[number];
+
+export const MAX_REFERENCE_IMAGE_BYTES = 10 * 1024 * 1024; // Before downscaling
+const MAX_REFERENCE_IMAGE_SIDE = 1536; // Longest side sent to the provider
+const MAX_REFERENCE_IMAGE_BASE64 = 8 * 1024 * 1024; // After downscaling, well under provider limits
+
+/** Used as the idea text when an image is sent without notes */
+export const REFERENCE_IMAGE_IDEA = "the attached reference image";
+
+export interface ReferenceImage {
+  name: string;
+  mimeType: ReferenceImageMimeType;
+  data: string; // Base64 without the "data:...;base64," prefix
+  width: number;
+  height: number;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function isReferenceImageFile(file: File): boolean {
+  return (REFERENCE_IMAGE_TYPES as readonly string[]).includes(file.type) ||
+    /\.(png|jpe?g|webp)$/i.test(file.name);
+}
+
+/** Guard for images coming from component state before they are sent */
+export function isValidReferenceImage(image: ReferenceImage): boolean {
+  return (REFERENCE_IMAGE_TYPES as readonly string[]).includes(image.mimeType) &&
+    image.data.length > 0 &&
+    image.data.length <= MAX_REFERENCE_IMAGE_BASE64 &&
+    BASE64_PATTERN.test(image.data);
+}
+
+export function toDataUrl(image: ReferenceImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read the image file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The file is not a valid image"));
+    img.src = src;
+  });
+}
+
+/**
+ * Read an uploaded PNG/JPG/WebP file, downscaling it so the longest side is
+ * at most MAX_REFERENCE_IMAGE_SIDE. Throws with a user-facing message when the
+ * file type or size is not accepted.
+ */
+export async function loadReferenceImage(file: File): Promise<ReferenceImage> {
+  if (!isReferenceImageFile(file)) {
+    throw new Error("Please upload a PNG, JPG or WebP image");
+  }
+  if (file.size > MAX_REFERENCE_IMAGE_BYTES) {
+    throw new Error(`Image is too large (max ${MAX_REFERENCE_IMAGE_BYTES / 1024 / 1024} MB)`);
+  }
+
+  let dataUrl = await readAsDataUrl(file);
+  const img = await decodeImage(dataUrl);
+  let width = img.naturalWidth;
+  let height = img.naturalHeight;
+
+  const scale = Math.min(1, MAX_REFERENCE_IMAGE_SIDE / Math.max(width, height));
+  if (scale < 1) {
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(img, 0, 0, width, height);
+    // PNG keeps transparency; photos are re-encoded as JPEG to keep them small
+    dataUrl = canvas.toDataURL(file.type === "image/png" ? "image/png" : "image/jpeg", 0.9);
+  }
+
+  const match = /^data:(image\/(?:png|jpeg|webp));base64,(.+)$/.exec(dataUrl);
+  if (!match) {
+    throw new Error("Please upload a PNG, JPG or WebP image");
+  }
+
+  const image: ReferenceImage = {
+    name: file.name,
+    mimeType: match[1] as ReferenceImageMimeType,
+    data: match[2],
+    width,
+    height,
+  };
+  if (!isValidReferenceImage(image)) {
+    throw new Error("Image is too large after resizing");
+  }
+  return image;
+}
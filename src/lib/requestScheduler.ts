@@ -0,0 +1,112 @@
+/**
+ * Request Scheduler - Per-provider concurrency limits for generation requests
+ *
+ * Batch slots ask for a slot on the provider they are about to call and wait
+ * in a FIFO queue while that provider is at its limit. The scheduler is a
+ * module singleton, so a regenerate started during a batch shares the same
+ * limit instead of adding on top of it.
+ */
+
+import type { ApiProvider } from "@/hooks/useApiKey";
+
+/** Parallel requests allowed per provider when the user has not set a limit */
+export const DEFAULT_CONCURRENCY_LIMITS: Record<ApiProvider, number> = {
+  openai: 4,
+  gemini: 4,
+  openrouter: 4,
+  groq: 3,
+  anthropic: 3,
+  local: 1, // A local server usually runs one generation at a time anyway
+  custom: 3,
+  mock: 4,
+};
+
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 10;
+
+export function clampConcurrency(limit: number): number {
+  if (!Number.isFinite(limit)) return MIN_CONCURRENCY;
+  return Math.max(MIN_CONCURRENCY, Math.min(MAX_CONCURRENCY, Math.round(limit)));
+}
+
+function abortError(): DOMException {
+  return new DOMException("Generation cancelled", "AbortError");
+}
+
+/**
+ * Resolve after `ms`, or reject with an AbortError as soon as the signal fires.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+class RequestScheduler {
+  private running: Map<string, number> = new Map();
+  private queues: Map<string, Array<() => void>> = new Map();
+
+  /**
+   * Wait for a free slot on `key`. Resolves with a release function that must
+   * be called exactly once when the request finishes (success or failure).
+   */
+  async acquire(key: string, limit: number, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    if ((this.running.get(key) || 0) >= limit) {
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.queues.get(key) || [];
+        const onAbort = () => {
+          const position = queue.indexOf(start);
+          if (position !== -1) queue.splice(position, 1);
+          reject(abortError());
+        };
+        const start = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        queue.push(start);
+        this.queues.set(key, queue);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+      // The slot was handed over by release(), which already counted it
+    } else {
+      this.running.set(key, (this.running.get(key) || 0) + 1);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release(key, limit);
+    };
+  }
+
+  private release(key: string, limit: number): void {
+    const queue = this.queues.get(key) || [];
+    const running = (this.running.get(key) || 1) - 1;
+
+    // Hand the freed slot straight to the next waiter so nothing can jump the queue
+    if (queue.length > 0 && running < limit) {
+      queue.shift()!();
+      return;
+    }
+    this.running.set(key, running);
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -14,6 +14,8 @@
  * - Secure HTTP headers
  */
 
+import { ApiProvider, getProviderAdapter, getAllowedApiHosts, isRegisteredProvider } from "./providerAdapters";
+
 // Maximum lengths for different input types
 export const INPUT_LIMITS = {
   USER_INPUT: 10000,      // Max characters for user prompt input
@@ -23,25 +25,11 @@ export const INPUT_LIMITS = {
   HISTORY_ITEM: 50000,    // Max characters per history item
 } as const;
 
-// API key format patterns for validation
-const API_KEY_PATTERNS: Record<string, RegExp> = {
-  openai: /^sk-[a-zA-Z0-9_-]{20,}$/,           // OpenAI: sk-xxx...
-  gemini: /^AIza[a-zA-Z0-9_-]{35,}$/,          // Google AI: AIzaSy...
-  openrouter: /^sk-or-v1-[a-zA-Z0-9]{40,}$/,   // OpenRouter: sk-or-v1-xxx
-  groq: /^gsk_[a-zA-Z0-9]{40,}$/,              // Groq: gsk_xxx
-  generic: /^[a-zA-Z0-9_-]{20,}$/,             // Generic pattern
-};
-
 // Allowed URL protocols
 const ALLOWED_PROTOCOLS = ['https:'];
 
-// Known safe API domains (whitelist approach for API calls)
-const ALLOWED_API_DOMAINS = [
-  'api.openai.com',
-  'generativelanguage.googleapis.com',
-  'openrouter.ai',
-  'api.groq.com',
-];
+// Hosts allowed over plain HTTP for local model servers (Ollama, LM Studio)
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
 
 /**
  * HTML entities for escaping
@@ -124,7 +112,7 @@ export function sanitizeInput(input: string, maxLength: number = INPUT_LIMITS.US
  */
 export function sanitizeApiKey(
   key: string, 
-  provider?: 'openai' | 'gemini' | 'openrouter' | 'groq'
+  provider?: ApiProvider
 ): string | null {
   if (typeof key !== 'string') {
     return null;
@@ -139,8 +127,9 @@ export function sanitizeApiKey(
   }
 
   // Validate format if provider is known
-  if (provider && API_KEY_PATTERNS[provider]) {
-    if (!API_KEY_PATTERNS[provider].test(cleaned)) {
+  const keyPattern = provider && getProviderAdapter(provider).keyPattern;
+  if (keyPattern) {
+    if (!keyPattern.test(cleaned)) {
       // Only log in development - never expose key format details in production
       if (import.meta.env.DEV) {
         console.warn(`[Sanitize] Invalid API key format for provider: ${provider}`);
@@ -168,10 +157,10 @@ export function sanitizeApiKey(
  */
 export function isValidApiKeyFormat(
   key: string,
-  provider: 'openai' | 'gemini' | 'openrouter' | 'groq'
+  provider: ApiProvider
 ): boolean {
   if (!key || typeof key !== 'string') return false;
-  const pattern = API_KEY_PATTERNS[provider];
+  const pattern = getProviderAdapter(provider).keyPattern;
   return pattern ? pattern.test(key.trim()) : false;
 }
 
@@ -179,7 +168,7 @@ export function isValidApiKeyFormat(
  * Sanitize and validate URL
  * - Validates URL format
  * - Ensures HTTPS only
- * - Optionally validates against whitelist
+ * - Optionally validates against whitelist (default: the registered provider API hosts)
  * - Returns null if invalid
  */
 export function sanitizeUrl(
@@ -192,7 +181,7 @@ export function sanitizeUrl(
 ): string | null {
   const {
     requireHttps = true,
-    allowedDomains = ALLOWED_API_DOMAINS,
+    allowedDomains = getAllowedApiHosts(),
     allowCustomDomains = false,
   } = options;
 
@@ -265,6 +254,43 @@ export function sanitizeCustomBaseUrl(url: string): string | null {
   });
 }
 
+/**
+ * Check whether a hostname points at this machine (loopback only).
+ * Accepts the whole 127.0.0.0/8 range and *.localhost, nothing on the LAN.
+ */
+export function isLoopbackHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return LOOPBACK_HOSTNAMES.includes(host) ||
+    host.endsWith('.localhost') ||
+    /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * Sanitize base URL for a local model server (Ollama, LM Studio)
+ * - Allows plain HTTP, but ONLY for loopback hosts
+ * - Rejects any other host, even over HTTPS (use the custom provider for those)
+ * - Returns null if invalid
+ */
+export function sanitizeLocalBaseUrl(url: string): string | null {
+  const sanitized = sanitizeUrl(url, {
+    requireHttps: false,
+    allowCustomDomains: true,
+    allowedDomains: [],
+  });
+  if (!sanitized) return null;
+
+  const parsed = new URL(sanitized);
+  if (!['http:', 'https:'].includes(parsed.protocol) || !isLoopbackHostname(parsed.hostname)) {
+    // Only log in development
+    if (import.meta.env.DEV) {
+      console.warn('[Sanitize] Local provider URL must point to localhost');
+    }
+    return null;
+  }
+
+  return sanitized;
+}
+
 /**
  * Sanitize model name
  */
@@ -312,10 +338,10 @@ export function sanitizeForStorage<T extends object>(data: T): T {
 }
 
 /**
- * Validate that a provider name is valid
+ * Validate that a provider name is valid (has a registered adapter)
  */
-export function isValidProvider(provider: string): provider is 'openai' | 'gemini' | 'openrouter' | 'groq' | 'custom' {
-  return ['openai', 'gemini', 'openrouter', 'groq', 'custom'].includes(provider);
+export function isValidProvider(provider: string): provider is ApiProvider {
+  return isRegisteredProvider(provider);
 }
 
 /**
@@ -360,6 +386,17 @@ class RateLimiter {
     return Math.max(0, this.maxCalls - recentCalls.length);
   }
 
+  /**
+   * Milliseconds until the oldest call in the window expires (0 if a call is allowed now)
+   */
+  msUntilAllowed(key: string = 'default'): number {
+    const now = Date.now();
+    const calls = this.calls.get(key) || [];
+    const recentCalls = calls.filter(time => now - time < this.windowMs);
+    if (recentCalls.length < this.maxCalls) return 0;
+    return Math.max(0, recentCalls[0] + this.windowMs - now);
+  }
+
   /**
    * Reset rate limit for a key
    */
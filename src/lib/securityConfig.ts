@@ -73,6 +73,7 @@ export const SecurityConfig = {
     'generativelanguage.googleapis.com',
     'openrouter.ai',
     'api.groq.com',
+    'api.anthropic.com',
   ],
 
   // ============================================================================
@@ -85,6 +86,7 @@ export const SecurityConfig = {
       gemini: /^AIza[a-zA-Z0-9_-]{35,}$/,
       openrouter: /^sk-or-v1-[a-zA-Z0-9]{40,}$/,
       groq: /^gsk_[a-zA-Z0-9]{40,}$/,
+      anthropic: /^sk-ant-[a-zA-Z0-9_-]{20,}$/,
     },
     
     /** Allowed characters for model names */
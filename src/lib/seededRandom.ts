@@ -0,0 +1,25 @@
+/**
+ * Seeded Random - small deterministic PRNG shared by the offline composer and
+ * the mock provider, so a stored seed reproduces the same picks.
+ */
+
+/** FNV-1a, so text seeds and idea text turn into a 32-bit state */
+export function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and good enough to pick words */
+export function createSeededRandom(seed: number | string): () => number {
+  let state = typeof seed === "number" ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Prompt Similarity - word shingle / Jaccard overlap between variations
+ *
+ * Two variations that only swap a couple of adjectives still share most of
+ * their 3-word sequences, while prompts that take a different direction on
+ * the same subject share very few. That makes shingle overlap a cheap,
+ * local stand-in for "these are near-duplicates".
+ */
+
+const SHINGLE_SIZE = 3;
+
+/** Off, or the Jaccard score at or above which a batch slot is regenerated */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+export const SIMILARITY_THRESHOLD_OPTIONS = [0, 0.3, 0.4, 0.5, 0.6, 0.7] as const;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    // Platform syntax is identical across variations and would inflate the score
+    .replace(/--[a-z]+(\s+[\w:.]+)?/g, " ")
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/** Set of word n-grams; texts shorter than one shingle use their words */
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = tokenize(text);
+  if (words.length < size) {
+    return new Set(words);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/** |A ∩ B| / |A ∪ B| over word shingles, from 0 (nothing shared) to 1 (same text) */
+export function jaccardSimilarity(a: string, b: string): number {
+  const setA = shingles(a);
+  const setB = shingles(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  let shared = 0;
+  for (const shingle of setA) {
+    if (setB.has(shingle)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/** Highest similarity between `text` and any of `others`, 0 when there are none */
+export function maxSimilarity(text: string, others: string[]): number {
+  return others.reduce((max, other) => Math.max(max, jaccardSimilarity(text, other)), 0);
+}
+
+export function formatSimilarity(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
@@ -0,0 +1,419 @@
+/**
+ * Storyboard - multi-shot sequences for video prompts
+ *
+ * One idea becomes N consecutive shot prompts in a single request, so the
+ * model plans the sequence as a whole. A shared continuity description
+ * (characters, wardrobe, location, lighting) is restated in every shot,
+ * because video generators render each shot on its own. Every shot carries
+ * a camera move and a duration; durations are rescaled locally so they add
+ * up to the requested total. Shot lists export as CSV or plain text.
+ */
+
+import { ApiProvider, TokenUsage, getProviderAdapter } from "./providerAdapters";
+import {
+  ProviderFallback,
+  backgroundInstructions,
+  resolveProviderBaseUrl,
+  sendCompletionRequest,
+  runWithFallback,
+  getCreativityParams,
+  MAX_TOKENS,
+} from "./generatePrompt";
+import { getStyleInstruction } from "./promptTemplates";
+import { FramingOptions, sanitizeFraming, getFramingInstruction } from "./framing";
+import { CharacterProfile, sanitizeCharacterProfile, getCharacterInstruction } from "./characters";
+import { sanitizePromptForIP } from "./ipFilter";
+import { sanitizeInput, sanitizeApiKey, sanitizeModelName, INPUT_LIMITS } from "./sanitize";
+
+export const MIN_SHOTS = 2;
+export const MAX_SHOTS = 12;
+export const DEFAULT_SHOT_COUNT = 4;
+export const SHOT_COUNT_OPTIONS = [3, 4, 6, 8] as const;
+
+/** Total sequence length in seconds */
+export const MIN_STORYBOARD_DURATION = 4;
+export const MAX_STORYBOARD_DURATION = 300;
+export const DEFAULT_STORYBOARD_DURATION = 30;
+export const STORYBOARD_DURATION_OPTIONS = [15, 30, 60, 90] as const;
+
+// Long enough to hold the restated continuity plus the shot's own action
+const WORDS_PER_SHOT = 70;
+const MAX_CAMERA_MOVE_LENGTH = 60;
+
+/** Moves the model is pointed at; it may still name another */
+export const CAMERA_MOVES = [
+  "static",
+  "slow push in",
+  "pull out",
+  "pan left",
+  "pan right",
+  "tilt up",
+  "tilt down",
+  "tracking shot",
+  "dolly zoom",
+  "crane up",
+  "crane down",
+  "orbit",
+  "handheld",
+  "whip pan",
+  "drone flyover",
+];
+
+export interface StoryboardShot {
+  shot: number; // 1-based
+  prompt: string; // Self-contained video prompt, continuity restated
+  cameraMove: string;
+  shotSize?: string;
+  start: number; // Seconds from the start of the sequence
+  duration: number; // Seconds
+}
+
+export interface Storyboard {
+  idea: string;
+  promptType: string;
+  continuity: string; // Characters, wardrobe, location and lighting shared by every shot
+  shots: StoryboardShot[];
+  totalDuration: number; // Seconds; the shot durations add up to this
+  requestedShots: number; // More than shots.length when the response was cut off
+  framing?: FramingOptions;
+  character?: string; // Name of the character profile the shots were written for
+  characterId?: string;
+  usage?: TokenUsage;
+  provider: ApiProvider;
+  model: string;
+}
+
+export interface StoryboardOptions {
+  apiKey: string;
+  provider: ApiProvider;
+  model: string;
+  baseUrl?: string;
+  promptType: string; // A video type; its style requirement applies to every shot
+  idea: string;
+  shotCount?: number;
+  totalDuration?: number; // Seconds
+  creativity?: number;
+  backgroundStyle?: string;
+  framing?: FramingOptions; // Shot size and camera angle are left to each shot
+  character?: CharacterProfile; // Becomes part of the continuity every shot restates
+  signal?: AbortSignal;
+  fallbacks?: ProviderFallback[];
+  concurrencyLimits?: Partial<Record<ApiProvider, number>>;
+  onFallback?: (from: ApiProvider, to: ApiProvider) => void;
+}
+
+// OpenAI strict mode needs every property listed as required
+const STORYBOARD_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    continuity: { type: "string", description: "Characters, wardrobe, location, lighting and palette shared by every shot" },
+    shots: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          prompt: { type: "string", description: "Self-contained video prompt for this shot" },
+          cameraMove: { type: "string", description: "One camera move" },
+          shotSize: { type: "string", description: "Shot size, e.g. wide, medium, close-up" },
+          duration: { type: "number", description: "Seconds" },
+        },
+        required: ["prompt", "cameraMove", "shotSize", "duration"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["continuity", "shots"],
+  additionalProperties: false,
+};
+
+export function clampShotCount(count: number): number {
+  if (!Number.isFinite(count)) return DEFAULT_SHOT_COUNT;
+  return Math.max(MIN_SHOTS, Math.min(MAX_SHOTS, Math.round(count)));
+}
+
+export function clampStoryboardDuration(seconds: number): number {
+  if (!Number.isFinite(seconds)) return DEFAULT_STORYBOARD_DURATION;
+  return Math.max(MIN_STORYBOARD_DURATION, Math.min(MAX_STORYBOARD_DURATION, Math.round(seconds)));
+}
+
+/**
+ * Whole-second durations that add up to `total`, keeping the proportions the
+ * model proposed. Missing or invalid proposals get an equal share; every shot
+ * lasts at least one second.
+ */
+export function distributeDurations(proposed: (number | undefined)[], total: number): number[] {
+  const count = proposed.length;
+  if (count === 0) return [];
+  const valid = proposed.filter((d): d is number => typeof d === "number" && Number.isFinite(d) && d > 0);
+  const fallback = valid.length > 0 ? valid.reduce((a, b) => a + b, 0) / valid.length : 1;
+  const weights = proposed.map((d) => (typeof d === "number" && Number.isFinite(d) && d > 0 ? d : fallback));
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const spare = Math.max(0, total - count);
+
+  // One second each, then the rest by weight (largest remainder first)
+  const exact = weights.map((w) => (w / sum) * spare);
+  const durations = exact.map((e) => 1 + Math.floor(e));
+  let left = Math.max(0, total - durations.reduce((a, b) => a + b, 0));
+  const order = exact
+    .map((e, i) => ({ i, remainder: e - Math.floor(e) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; left > 0; k = (k + 1) % count, left--) {
+    durations[order[k].i]++;
+  }
+  return durations;
+}
+
+interface RawShot {
+  prompt: string;
+  cameraMove?: string;
+  shotSize?: string;
+  duration?: number;
+}
+
+function readShot(value: unknown): RawShot | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.prompt !== "string" || !data.prompt.trim()) return null;
+  const duration = typeof data.duration === "number" ? data.duration : parseFloat(String(data.duration ?? ""));
+  return {
+    prompt: data.prompt,
+    cameraMove: typeof data.cameraMove === "string" ? data.cameraMove : undefined,
+    shotSize: typeof data.shotSize === "string" ? data.shotSize : undefined,
+    duration: Number.isFinite(duration) ? duration : undefined,
+  };
+}
+
+/**
+ * Read the storyboard JSON. A response cut off by the token limit is not
+ * valid JSON, so the shots that did arrive whole are salvaged one by one.
+ */
+export function parseStoryboardResponse(text: string): { continuity: string; shots: RawShot[] } {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = json.indexOf("{");
+  const end = json.lastIndexOf("}");
+
+  try {
+    const data = JSON.parse(start >= 0 && end > start ? json.slice(start, end + 1) : json);
+    if (data && Array.isArray(data.shots)) {
+      return {
+        continuity: typeof data.continuity === "string" ? data.continuity.trim() : "",
+        shots: data.shots.map(readShot).filter((shot: RawShot | null): shot is RawShot => shot !== null),
+      };
+    }
+  } catch {
+    // Truncated or not JSON, salvage below
+  }
+
+  // Shot objects are flat, so each complete one matches on its own
+  const shots: RawShot[] = [];
+  for (const match of json.matchAll(/\{[^{}]*"prompt"\s*:[^{}]*\}/g)) {
+    try {
+      const shot = readShot(JSON.parse(match[0]));
+      if (shot) shots.push(shot);
+    } catch {
+      // Not a whole object after all
+    }
+  }
+  const continuity = /"continuity"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(json)?.[1] ?? "";
+  let unescaped = continuity;
+  try {
+    unescaped = JSON.parse(`"${continuity}"`);
+  } catch {
+    // Keep the escaped text
+  }
+  return { continuity: unescaped.trim(), shots };
+}
+
+function cleanText(text: string, maxLength: number): string {
+  return sanitizePromptForIP(sanitizeInput(text, maxLength).replace(/\s+/g, " ").trim());
+}
+
+function buildSystemContent(
+  promptType: string,
+  shotCount: number,
+  totalDuration: number,
+  backgroundStyle: string,
+  framing: FramingOptions,
+  character: CharacterProfile | undefined,
+  structured: boolean
+): string {
+  const styleInstruction = getStyleInstruction(promptType);
+  const bgInstruction = backgroundInstructions[backgroundStyle] || "";
+  const framingInstruction = getFramingInstruction(framing);
+  const characterInstruction = getCharacterInstruction(character);
+
+  return `You are a film director and storyboard artist writing prompts for AI video generators (Runway, Sora, Kling, Veo, Pika).
+STORYBOARD: Break the user's idea into EXACTLY ${shotCount} consecutive shots that together run ${totalDuration} seconds and tell it as one continuous sequence.
+
+CONTINUITY (CRITICAL):
+- First define the continuity: every character (age, build, face, hair, skin), their wardrobe and props, the location, time of day, lighting setup and color palette
+- Each shot is generated on its own, so every shot prompt MUST restate the continuity details it shows with the same words - never rename, re-dress, re-age or relight a character between shots
+- Shots follow each other in story order; vary shot size and angle the way an editor would, and let each shot pick up where the previous one ended
+
+EACH SHOT:
+- "prompt": a self-contained video prompt of about ${WORDS_PER_SHOT} words, one continuous line: subject and action, setting, lighting, mood and style
+- "cameraMove": one camera move, e.g. ${CAMERA_MOVES.slice(0, 10).join(", ")}
+- "shotSize": e.g. extreme wide, wide, medium, close-up, extreme close-up
+- "duration": seconds, a whole number; all durations add up to ${totalDuration}
+${styleInstruction ? `\nSTYLE REQUIREMENT (CRITICAL):\n${styleInstruction}\n` : ""}
+IP SAFE: No real names, no copyrighted characters, no artist names, no brand names - use generic descriptions.
+${bgInstruction ? `BACKGROUND: ${bgInstruction}` : ""}
+${framingInstruction ? `FRAMING (every shot): ${framingInstruction}` : ""}
+${characterInstruction ? `CHARACTER (every shot it appears in, part of the continuity): ${characterInstruction}` : ""}
+RESPONSE FORMAT:
+Return ${structured ? "a JSON object" : "ONLY a JSON object, no markdown and no explanations"}: {"continuity": "...", "shots": [{"prompt": "...", "cameraMove": "...", "shotSize": "...", "duration": 5}]}`;
+}
+
+/**
+ * Write a storyboard for one idea. Runs as a single request on the provider's
+ * queue and moves down the fallback chain on 429/5xx like a prompt does.
+ * Throws when the response holds no usable shot.
+ */
+export async function generateStoryboard({
+  apiKey,
+  provider,
+  model,
+  baseUrl,
+  promptType,
+  idea,
+  shotCount = DEFAULT_SHOT_COUNT,
+  totalDuration = DEFAULT_STORYBOARD_DURATION,
+  creativity = 3,
+  backgroundStyle = "none",
+  framing,
+  character,
+  signal,
+  fallbacks,
+  concurrencyLimits,
+  onFallback,
+}: StoryboardOptions): Promise<Storyboard> {
+  const sanitizedIdea = sanitizeInput(idea, INPUT_LIMITS.USER_INPUT).trim();
+  if (!sanitizedIdea) {
+    throw new Error("User input is required and cannot be empty after sanitization");
+  }
+  const sanitizedPromptType = sanitizeInput(promptType, 100);
+  const seconds = clampStoryboardDuration(totalDuration);
+  // Every shot lasts at least a second
+  const shots = Math.min(clampShotCount(shotCount), seconds);
+  // Every shot picks its own size and angle; the rest of the framing applies to all
+  const { shotSize: _shotSize, cameraAngle: _cameraAngle, ...sequenceFraming } = sanitizeFraming(framing);
+  const sanitizedCharacter = sanitizeCharacterProfile(character) ?? undefined;
+  // Shots times words, at roughly 2 tokens per word with JSON overhead
+  const maxTokens = Math.min(MAX_TOKENS, shots * WORDS_PER_SHOT * 3 + 600);
+
+  // runWithFallback waits out the rate limit before each attempt
+  const requestStoryboard = async (current: ProviderFallback) => {
+    const adapter = getProviderAdapter(current.provider);
+    const key = current.provider !== "custom" ? sanitizeApiKey(current.apiKey, current.provider) : current.apiKey;
+    if (!key && adapter.requiresKey) {
+      throw new Error("Invalid API key format");
+    }
+    const resolvedModel = sanitizeModelName(current.model) || adapter.getDefaultModel();
+    const structured = adapter.supportsStructuredOutput;
+
+    const request = adapter.buildRequest({
+      apiKey: key || "",
+      baseUrl: resolveProviderBaseUrl(current.provider, current.baseUrl),
+      model: resolvedModel,
+      systemContent: buildSystemContent(sanitizedPromptType, shots, seconds, backgroundStyle, sequenceFraming, sanitizedCharacter, structured),
+      userContent: `Storyboard this idea:\n\n"${sanitizedIdea}"`,
+      followUps: [],
+      maxTokens,
+      sampling: getCreativityParams(creativity, true),
+      responseSchema: structured ? { name: "storyboard", schema: STORYBOARD_JSON_SCHEMA } : undefined,
+      stream: false,
+    });
+    const result = await sendCompletionRequest(adapter, request, { signal });
+    return { result, provider: current.provider, model: resolvedModel };
+  };
+
+  const { result, provider: usedProvider, model: usedModel } = await runWithFallback(
+    { apiKey, provider, model, baseUrl, signal, fallbacks, concurrencyLimits, onFallback },
+    requestStoryboard
+  );
+
+  const parsed = parseStoryboardResponse(result.text);
+  const rawShots = parsed.shots.slice(0, shots);
+  if (rawShots.length === 0) {
+    if (import.meta.env.DEV) {
+      console.warn(`[storyboard] No shots in response: "${result.text.substring(0, 200)}..."`);
+    }
+    throw new Error("The model did not return any shots. Try again or pick another model.");
+  }
+
+  // A cut-off response still fills the whole running time with the shots it has
+  const durations = distributeDurations(rawShots.map((shot) => shot.duration), seconds);
+  let start = 0;
+  const storyboardShots = rawShots.map((shot, index): StoryboardShot => {
+    const entry: StoryboardShot = {
+      shot: index + 1,
+      prompt: cleanText(shot.prompt, INPUT_LIMITS.HISTORY_ITEM),
+      cameraMove: cleanText(shot.cameraMove || "", MAX_CAMERA_MOVE_LENGTH).toLowerCase() || "static",
+      ...(shot.shotSize?.trim() && { shotSize: cleanText(shot.shotSize, MAX_CAMERA_MOVE_LENGTH).toLowerCase() }),
+      start,
+      duration: durations[index],
+    };
+    start += durations[index];
+    return entry;
+  });
+
+  return {
+    idea: sanitizedIdea,
+    promptType: sanitizedPromptType,
+    continuity: cleanText(parsed.continuity, INPUT_LIMITS.USER_INPUT),
+    shots: storyboardShots,
+    totalDuration: seconds,
+    requestedShots: shots,
+    ...(Object.keys(sequenceFraming).length > 0 && { framing: sequenceFraming }),
+    ...(sanitizedCharacter && { character: sanitizedCharacter.name, characterId: sanitizedCharacter.id }),
+    usage: result.usage,
+    provider: usedProvider,
+    model: usedModel,
+  };
+}
+
+// ============================================================================
+// SHOT LIST EXPORT
+// ============================================================================
+
+/** 75 -> "1:15" */
+export function formatTimecode(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+function csvField(value: string | number): string {
+  // Model text starting like a formula would run as one when the sheet is opened
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per shot, for spreadsheets and production tools */
+export function formatShotListCsv(storyboard: Storyboard): string {
+  const header = ["Shot", "Start", "End", "Duration (s)", "Shot Size", "Camera Move", "Prompt"];
+  const rows = storyboard.shots.map((shot) => [
+    shot.shot,
+    formatTimecode(shot.start),
+    formatTimecode(shot.start + shot.duration),
+    shot.duration,
+    shot.shotSize || "",
+    shot.cameraMove,
+    shot.prompt,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n");
+}
+
+/** Readable shot list: the continuity, then one block per shot */
+export function formatShotListText(storyboard: Storyboard): string {
+  const shots = storyboard.shots.map((shot) =>
+    `SHOT ${shot.shot} · ${formatTimecode(shot.start)}-${formatTimecode(shot.start + shot.duration)} (${shot.duration}s)` +
+    ` · ${[shot.shotSize, shot.cameraMove].filter(Boolean).join(" · ")}\n${shot.prompt}`
+  );
+  return [
+    `STORYBOARD: ${storyboard.idea}`,
+    `${storyboard.shots.length} shots · ${storyboard.totalDuration}s`,
+    ...(storyboard.continuity ? [`\nCONTINUITY:\n${storyboard.continuity}`] : []),
+    "",
+    shots.join("\n\n"),
+  ].join("\n");
+}
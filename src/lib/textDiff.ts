@@ -0,0 +1,70 @@
+/**
+ * Word-level diff for the before/after view of enhanced prompts.
+ * Plain LCS over whitespace-separated words; prompts are a few hundred words
+ * at most, so the quadratic table is small.
+ */
+
+export type DiffSegmentType = "same" | "added" | "removed";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many table cells, skip the LCS and show a full replacement
+const MAX_DIFF_CELLS = 2_000_000;
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, word: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += ` ${word}`;
+  } else {
+    segments.push({ type, text: word });
+  }
+}
+
+/**
+ * Diff two texts word by word. Consecutive words of the same type are merged
+ * into one segment, so the result can be rendered as a handful of spans.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...(a.length ? [{ type: "removed" as const, text: a.join(" ") }] : []),
+      ...(b.length ? [{ type: "added" as const, text: b.join(" ") }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the common subsequence of a[i:] and b[j:]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+
+  return segments;
+}
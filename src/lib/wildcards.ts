@@ -0,0 +1,263 @@
+/**
+ * Wildcards - dynamic prompt syntax for the idea box
+ *
+ * `{red|blue|gold} dragon in a __location__` expands to one idea per
+ * combination (or a random sample of them) before the batch starts, the same
+ * syntax as the Stable Diffusion dynamic prompts extension. `{a|b}` picks one
+ * option and can be nested; `__name__` picks a word from a user-managed list.
+ * Word lists may use the syntax themselves.
+ */
+
+export type WildcardMode = "all" | "random";
+
+export interface WildcardList {
+  name: string; // Used as __name__, lower-case letters, digits, - and _
+  words: string[];
+}
+
+export interface IdeaExpansion {
+  ideas: string[];
+  total: number; // Ideas the input would produce without the cap
+  capped: boolean;
+  missing: string[]; // __names__ with no word list, left in the idea as written
+}
+
+export const DEFAULT_WILDCARD_MODE: WildcardMode = "all";
+export const DEFAULT_RANDOM_COUNT = 5;
+export const RANDOM_COUNT_OPTIONS = [3, 5, 10, 20] as const;
+
+/** Most prompts (ideas × variations) one expanded batch may request */
+export const MAX_WILDCARD_PROMPTS = 100;
+
+export const MAX_WILDCARD_WORDS = 200;
+const MAX_WILDCARD_WORD_LENGTH = 200;
+const MAX_WILDCARD_NAME_LENGTH = 40;
+// Lists that reference each other stop expanding past this depth
+const MAX_WILDCARD_DEPTH = 4;
+
+const WILDCARD_PATTERN = /^__([a-z0-9-]+(?:_[a-z0-9-]+)*)__/i;
+
+type WildcardNode =
+  | { type: "text"; value: string }
+  | { type: "choice"; options: WildcardNode[][] }
+  | { type: "wildcard"; name: string };
+
+interface ExpansionContext {
+  lists: Map<string, string[]>;
+  missing: Set<string>;
+}
+
+/** Index of the `}` closing the `{` at `start`, or -1 */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Split on `|` outside nested braces */
+function splitOptions(inner: string): string[] {
+  const options: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of inner) {
+    if (char === "{") depth++;
+    else if (char === "}") depth--;
+    if (char === "|" && depth === 0) {
+      options.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  options.push(current);
+  return options;
+}
+
+function parse(text: string): WildcardNode[] {
+  const nodes: WildcardNode[] = [];
+  let literal = "";
+  const flush = () => {
+    if (literal) nodes.push({ type: "text", value: literal });
+    literal = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === "{") {
+      const end = findClosingBrace(text, i);
+      const options = end === -1 ? [] : splitOptions(text.slice(i + 1, end));
+      // A lone {word} without "|" is not an alternation; keep it as written
+      if (options.length > 1) {
+        flush();
+        nodes.push({ type: "choice", options: options.map(parse) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (text.startsWith("__", i)) {
+      const match = WILDCARD_PATTERN.exec(text.slice(i));
+      if (match) {
+        flush();
+        nodes.push({ type: "wildcard", name: match[1].toLowerCase() });
+        i += match[0].length;
+        continue;
+      }
+    }
+    literal += text[i];
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+/** Word list entries as parsed sequences, or undefined when the list is missing or too deep */
+function resolveWildcard(name: string, context: ExpansionContext, depth: number): WildcardNode[][] | undefined {
+  const words = context.lists.get(name);
+  if (!words || words.length === 0) {
+    context.missing.add(name);
+    return undefined;
+  }
+  return words.map((word) => (depth < MAX_WILDCARD_DEPTH ? parse(word) : [{ type: "text", value: word }]));
+}
+
+/** Options of a choice or wildcard node; undefined for an unknown wildcard, which stays as written */
+function nodeOptions(node: Exclude<WildcardNode, { type: "text" }>, context: ExpansionContext, depth: number) {
+  return node.type === "choice" ? node.options : resolveWildcard(node.name, context, depth);
+}
+
+function literalOf(node: WildcardNode): string {
+  return node.type === "text" ? node.value : node.type === "wildcard" ? `__${node.name}__` : "";
+}
+
+function countSequence(nodes: WildcardNode[], context: ExpansionContext, depth: number): number {
+  let count = 1;
+  for (const node of nodes) {
+    count *= countNode(node, context, depth);
+  }
+  return Math.min(count, Number.MAX_SAFE_INTEGER);
+}
+
+function countNode(node: WildcardNode, context: ExpansionContext, depth: number): number {
+  if (node.type === "text") return 1;
+  const options = nodeOptions(node, context, depth);
+  if (!options) return 1;
+  const nextDepth = node.type === "wildcard" ? depth + 1 : depth;
+  return options.reduce((sum, option) => sum + countSequence(option, context, nextDepth), 0);
+}
+
+function* expandSequence(nodes: WildcardNode[], context: ExpansionContext, depth: number): Generator<string> {
+  if (nodes.length === 0) {
+    yield "";
+    return;
+  }
+  const [head, ...rest] = nodes;
+  for (const start of expandNode(head, context, depth)) {
+    for (const end of expandSequence(rest, context, depth)) {
+      yield start + end;
+    }
+  }
+}
+
+function* expandNode(node: WildcardNode, context: ExpansionContext, depth: number): Generator<string> {
+  const options = node.type === "text" ? undefined : nodeOptions(node, context, depth);
+  if (!options) {
+    yield literalOf(node);
+    return;
+  }
+  const nextDepth = node.type === "wildcard" ? depth + 1 : depth;
+  for (const option of options) {
+    yield* expandSequence(option, context, nextDepth);
+  }
+}
+
+function sampleSequence(nodes: WildcardNode[], context: ExpansionContext, depth: number, random: () => number): string {
+  return nodes.map((node) => {
+    const options = node.type === "text" ? undefined : nodeOptions(node, context, depth);
+    if (!options) return literalOf(node);
+    const option = options[Math.floor(random() * options.length)];
+    return sampleSequence(option, context, node.type === "wildcard" ? depth + 1 : depth, random);
+  }).join("");
+}
+
+/** Tidy the gaps an empty option leaves behind ("a  , b" -> "a, b") */
+function tidy(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\s+([,.;:])/g, "$1").trim();
+}
+
+export function hasWildcardSyntax(text: string): boolean {
+  return parse(text).some((node) => node.type !== "text");
+}
+
+/**
+ * Expand every idea line. "all" produces each combination in order; "random"
+ * draws up to `randomCount` distinct combinations per line. At most `limit`
+ * ideas are returned; `total` says how many there would have been.
+ */
+export function expandIdeas(
+  lines: string[],
+  lists: WildcardList[],
+  {
+    mode = DEFAULT_WILDCARD_MODE,
+    randomCount = DEFAULT_RANDOM_COUNT,
+    limit = MAX_WILDCARD_PROMPTS,
+    random = Math.random,
+  }: { mode?: WildcardMode; randomCount?: number; limit?: number; random?: () => number } = {}
+): IdeaExpansion {
+  const context: ExpansionContext = {
+    lists: new Map(lists.map((list) => [list.name.toLowerCase(), list.words])),
+    missing: new Set(),
+  };
+  const ideas: string[] = [];
+  let total = 0;
+
+  for (const line of lines) {
+    const nodes = parse(line);
+    const combinations = countSequence(nodes, context, 0);
+    const wanted = mode === "random" ? Math.min(randomCount, combinations) : combinations;
+    total += wanted;
+
+    const seen = new Set<string>();
+    if (mode === "random") {
+      // Duplicate draws are retried a bounded number of times
+      for (let attempt = 0; seen.size < wanted && attempt < wanted * 20; attempt++) {
+        seen.add(tidy(sampleSequence(nodes, context, 0, random)));
+      }
+    } else {
+      // Combinations that tidy to the same text would otherwise walk the whole product
+      let attempts = 0;
+      for (const expanded of expandSequence(nodes, context, 0)) {
+        if (ideas.length + seen.size >= limit || attempts++ >= limit * 20) break;
+        seen.add(tidy(expanded));
+      }
+    }
+    for (const idea of seen) {
+      if (idea && ideas.length < limit) ideas.push(idea);
+    }
+  }
+
+  return { ideas, total, capped: total > limit, missing: [...context.missing] };
+}
+
+/** "Hair Color" -> "hair_color"; empty when nothing usable is left */
+export function normalizeWildcardName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^_+|_+$/g, "")
+    .replace(/\s+/g, "_")
+    .replace(/[^a-z0-9_-]/g, "")
+    .replace(/_{2,}/g, "_")
+    .slice(0, MAX_WILDCARD_NAME_LENGTH);
+}
+
+/** One word or phrase per line, trimmed and de-duplicated */
+export function parseWordList(text: string): string[] {
+  const words = text
+    .split(/\r?\n/)
+    .map((word) => word.trim().slice(0, MAX_WILDCARD_WORD_LENGTH))
+    .filter(Boolean);
+  return [...new Set(words)].slice(0, MAX_WILDCARD_WORDS);
+}
@@ -1,20 +1,41 @@
-import { useState, useRef } from "react";
-import { Sparkles, Copy, Check, AlertCircle, Loader2, Star, Upload, Layers, RefreshCw, Download, Flame, ImageIcon, AlignLeft, Ruler, Lightbulb } from "lucide-react";
+import { useState, useRef, useMemo, Fragment } from "react";
+import { Sparkles, Copy, Check, AlertCircle, Loader2, Star, Upload, Layers, RefreshCw, Download, Flame, ImageIcon, AlignLeft, Ruler, Lightbulb, Square, Wand2, WandSparkles, GitCompare, Dices, WifiOff, Camera, Clapperboard, UserRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { DecorativeShapes } from "@/components/prompt/DecorativeShapes";
 import { PromptHistoryPanel } from "@/components/prompt/PromptHistoryPanel";
-import { useApiKey } from "@/hooks/useApiKey";
+import { PromptRefineBox } from "@/components/prompt/PromptRefineBox";
+import { PromptDiff } from "@/components/prompt/PromptDiff";
+import { StoryboardTable } from "@/components/prompt/StoryboardTable";
+import { useApiKey, ApiProvider } from "@/hooks/useApiKey";
 import { useCustomModels } from "@/hooks/useCustomModels";
 import { usePromptHistory, PromptHistoryItem } from "@/hooks/usePromptHistory";
 import { useGlobalStats } from "@/hooks/useGlobalStats";
-import { generatePromptBatch, generatePrompt, DEFAULT_PROMPT_LENGTH } from "@/lib/generatePrompt";
+import { useModelPrices } from "@/hooks/useModelPrices";
+import { useWildcards } from "@/hooks/useWildcards";
+import { useCharacters } from "@/hooks/useCharacters";
+import { generatePromptBatch, generatePrompt, isAbortError, DEFAULT_PROMPT_LENGTH, GeneratedPrompt, ProviderFallback, BatchProgress, RefinementTurn, PromptMode, splitIdeas, sumTokenUsage } from "@/lib/generatePrompt";
+import { extractKeyPhrases } from "@/lib/keyPhrases";
+import { detectLanguage, LANGUAGE_NAMES } from "@/lib/languageDetect";
+import { maxSimilarity, formatSimilarity } from "@/lib/similarity";
+import { expandIdeas, hasWildcardSyntax, WildcardMode, DEFAULT_WILDCARD_MODE, DEFAULT_RANDOM_COUNT, RANDOM_COUNT_OPTIONS, MAX_WILDCARD_PROMPTS } from "@/lib/wildcards";
+import { composeOfflineBatch, composeOfflinePrompt, randomSeed, parseSeed, OFFLINE_PROVIDER, MAX_SEED } from "@/lib/offlineComposer";
+import { createSeededRandom } from "@/lib/seededRandom";
+import { ReferenceImage, REFERENCE_IMAGE_IDEA, isReferenceImageFile, loadReferenceImage, toDataUrl } from "@/lib/referenceImage";
+import { estimateCost, formatCost, formatTokens } from "@/lib/pricing";
+import { isValidProvider } from "@/lib/sanitize";
+import { getProviderAdapter } from "@/lib/providerAdapters";
+import { targetPlatforms, TargetPlatform } from "@/lib/platformFormatters";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FramingOptions, FramingField, framingFields, hasFraming, describeFraming } from "@/lib/framing";
+import { generateStoryboard, formatShotListText, Storyboard, DEFAULT_SHOT_COUNT, DEFAULT_STORYBOARD_DURATION, SHOT_COUNT_OPTIONS, STORYBOARD_DURATION_OPTIONS, MIN_SHOTS, MAX_SHOTS, MIN_STORYBOARD_DURATION, MAX_STORYBOARD_DURATION, clampShotCount, clampStoryboardDuration } from "@/lib/storyboard";
 
 const promptTypeLabels: Record<string, string> = {
   image: "Image",
@@ -42,22 +63,55 @@ type BackgroundStyleId = typeof backgroundStyles[number]["id"];
 export default function PromptGenerator() {
   const [promptType, setPromptType] = useState("image");
   const [userInput, setUserInput] = useState("");
-  const [generatedPrompts, setGeneratedPrompts] = useState<(string | null)[]>([]);
+  const [generatedPrompts, setGeneratedPrompts] = useState<(GeneratedPrompt | null)[]>([]);
+  // Raw text streamed so far per slot, replaced by the cleaned prompt when it completes
+  const [streamingPrompts, setStreamingPrompts] = useState<Record<number, string>>({});
   const [batchSize, setBatchSize] = useState(3);
   const [creativity, setCreativity] = useState(3);
   const [promptLength, setPromptLength] = useState<number>(DEFAULT_PROMPT_LENGTH);
   const [backgroundStyle, setBackgroundStyle] = useState<BackgroundStyleId>("none");
+  const [framing, setFraming] = useState<FramingOptions>({});
+  const [targetPlatform, setTargetPlatform] = useState<TargetPlatform>("generic");
+  const [promptMode, setPromptMode] = useState<PromptMode>("generate");
+  const [preservePhrases, setPreservePhrases] = useState(true);
+  // {a|b} and __name__ in ideas: every combination, or a random sample per line
+  const [wildcardMode, setWildcardMode] = useState<WildcardMode>(DEFAULT_WILDCARD_MODE);
+  const [randomCount, setRandomCount] = useState<number>(DEFAULT_RANDOM_COUNT);
+  // Offline composer: template vocabulary instead of an API call, reproducible per seed
+  const [offlineComposer, setOfflineComposer] = useState(false);
+  const [composerSeed, setComposerSeed] = useState(() => randomSeed());
+  // Storyboard: one video idea as N consecutive shots instead of a batch of clips
+  const [storyboardMode, setStoryboardMode] = useState(false);
+  const [shotCount, setShotCount] = useState<number>(DEFAULT_SHOT_COUNT);
+  const [storyboardDuration, setStoryboardDuration] = useState<number>(DEFAULT_STORYBOARD_DURATION);
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  // Image-to-prompt: the textarea becomes optional notes while an image is attached
+  const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
+  // Cards showing the before/after diff instead of the plain enhanced text
+  const [diffOpen, setDiffOpen] = useState<Record<number, boolean>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
-  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [refiningIndex, setRefiningIndex] = useState<number | null>(null);
+  // Per card: the refinement thread so far and the history item of the version shown
+  const [refineThreads, setRefineThreads] = useState<Record<number, RefinementTurn[]>>({});
+  const [historyRefs, setHistoryRefs] = useState<Record<number, { id: string; version: number }>>({});
+  // Ideas of the last batch, used to label the output groups
+  const [batchIdeas, setBatchIdeas] = useState<string[]>([]);
+  const [progress, setProgress] = useState<BatchProgress>({ queued: 0, running: 0, done: 0, total: 0 });
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [copiedNegativeIndex, setCopiedNegativeIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const outputRef = useRef<HTMLDivElement>(null);
+  // Controller for the in-flight batch or regenerate request (Stop button)
+  const abortControllerRef = useRef<AbortController | null>(null);
   
-  const { provider, model, selectedCustomModelId, currentApiKey, hasApiKey } = useApiKey();
+  const { provider, model, selectedCustomModelId, localBaseUrl, currentApiKey, hasApiKey, apiKeys, fallbackProviders, concurrencyLimits, structuredOutput, similarityThreshold, outputLanguage } = useApiKey();
   const { customModels } = useCustomModels();
-  const { history, addToHistory, removeFromHistory, toggleFavorite, clearHistory } = usePromptHistory();
+  const { history, addToHistory, removeFromHistory, toggleFavorite, clearHistory, getVersionChain } = usePromptHistory();
   const { incrementPrompt, setGenerating } = useGlobalStats();
+  const { prices } = useModelPrices();
+  const { wildcardLists } = useWildcards();
+  const { characters, selectedCharacter, selectedCharacterId, setSelectedCharacterId } = useCharacters();
   const { toast } = useToast();
 
   const selectedCustomModel = provider === "custom" 
@@ -68,14 +122,112 @@ export default function PromptGenerator() {
     ? selectedCustomModel?.apiKey || "" 
     : currentApiKey;
 
+  // Local servers and the mock provider are usable without a key
+  const hasValidKey = provider === "custom" 
+    ? !!selectedCustomModel?.apiKey 
+    : !getProviderAdapter(provider).requiresKey || !!apiKeyToUse;
+
+  // Without a usable model, prompts are composed locally (see offlineComposer.ts)
+  const isOfflineMode = offlineComposer || !hasValidKey;
+
+  // Image prompts are regenerated and refined with their image while it is still attached
+  const getReferenceImageFor = (prompt: GeneratedPrompt | null | undefined) =>
+    prompt?.referenceImage && referenceImage?.name === prompt.referenceImage ? referenceImage : undefined;
+
+  // Highest overlap of each card with another variation of the same idea
+  const similarityScores = useMemo(() => generatedPrompts.map((prompt, index) => {
+    if (!prompt) return undefined;
+    const siblings = generatedPrompts.filter((p, i): p is GeneratedPrompt =>
+      p !== null && i !== index && p.ideaIndex === prompt.ideaIndex);
+    return siblings.length > 0 ? maxSimilarity(prompt.text, siblings.map((p) => p.text)) : undefined;
+  }), [generatedPrompts]);
+
+  const getPromptCost = (prompt: GeneratedPrompt) =>
+    estimateCost(prompt.usage, prompt.model, prompt.provider, prices);
+
+  // Platform syntax (MJ flags, SD weights) only makes sense for still images
+  const isImagePromptType = promptType.startsWith("image") || promptType === "3d" || promptType === "art";
+  const platformToUse: TargetPlatform = isImagePromptType ? targetPlatform : "generic";
+
+  // Background and framing options apply to image and video types
+  const isVisualPromptType = isImagePromptType || promptType.startsWith("video");
+  const framingToUse = isVisualPromptType && hasFraming(framing) ? framing : undefined;
+
+  const setFramingField = (field: FramingField, value: string) => {
+    setFraming(prev => {
+      const { [field]: _, ...rest } = prev;
+      return value === "none" ? rest : { ...rest, [field]: value };
+    });
+  };
+
+  // Enhance mode upgrades existing image/video prompts; text types always generate
+  const supportsEnhance = (isImagePromptType || promptType.startsWith("video")) && !referenceImage;
+  const modeToUse: PromptMode = supportsEnhance ? promptMode : "generate";
+  const isEnhanceMode = modeToUse === "enhance";
+
+  // Storyboards are written from an idea, so enhance and image-to-prompt turn them off
+  const isStoryboardMode = storyboardMode && promptType.startsWith("video") && !isEnhanceMode && !referenceImage;
+
+  // Enhance keeps the pasted prompt's language, so only ideas are checked
+  const inputLanguage = useMemo(
+    () => (isEnhanceMode ? "unknown" : detectLanguage(userInput)),
+    [isEnhanceMode, userInput]
+  );
+
+  // Ideas after wildcard expansion, capped so ideas × variations stays under MAX_WILDCARD_PROMPTS.
+  // Enhance pastes finished prompts, where braces are not ours to expand.
+  const wildcardLimit = Math.max(1, Math.floor(MAX_WILDCARD_PROMPTS / batchSize));
+  const wildcardPreview = useMemo(
+    () => (isEnhanceMode || !hasWildcardSyntax(userInput)
+      ? null
+      : expandIdeas(splitIdeas(userInput), wildcardLists, { mode: wildcardMode, randomCount, limit: wildcardLimit })),
+    [isEnhanceMode, userInput, wildcardLists, wildcardMode, randomCount, wildcardLimit]
+  );
+
+  const baseUrlToUse = provider === "local"
+    ? localBaseUrl
+    : selectedCustomModel?.baseUrl;
+
+  // Fallback chain from Settings, skipping providers that have no stored key
+  const fallbacksToUse: ProviderFallback[] = fallbackProviders
+    .filter((f) => f.provider !== provider && (!getProviderAdapter(f.provider).requiresKey || !!apiKeys[f.provider]))
+    .map((f) => ({
+      provider: f.provider,
+      apiKey: apiKeys[f.provider] || "",
+      model: f.model,
+      baseUrl: f.provider === "local" ? localBaseUrl : undefined,
+    }));
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (isReferenceImageFile(file)) {
+      loadReferenceImage(file)
+        .then((image) => {
+          setReferenceImage(image);
+          toast({
+            title: "🖼️ Image loaded!",
+            description: `${file.name} will be turned into a prompt. Add notes in the text box if needed.`,
+          });
+        })
+        .catch((error) => {
+          toast({
+            title: "Error reading image",
+            description: error instanceof Error ? error.message : "Could not read the image",
+            variant: "destructive",
+          });
+        });
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      return;
+    }
+
     if (!file.name.endsWith('.txt')) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a .txt file",
+        description: "Please upload a .txt file or a PNG, JPG or WebP image",
         variant: "destructive",
       });
       return;
@@ -107,7 +259,7 @@ export default function PromptGenerator() {
   };
 
 const handleGenerate = async () => {
-    if (!userInput.trim()) {
+    if (!userInput.trim() && !referenceImage) {
       toast({
         title: "Oops!",
         description: "Please enter some ideas first",
@@ -116,30 +268,47 @@ const handleGenerate = async () => {
       return;
     }
 
-    const hasValidKey = provider === "custom" 
-      ? !!selectedCustomModel?.apiKey 
-      : !!apiKeyToUse;
+    if (isStoryboardMode) {
+      handleStoryboard();
+      return;
+    }
 
-    if (!hasValidKey) {
-      toast({
-        title: "Model Not Configured",
-        description: provider === "custom" 
-          ? "Please select a custom model in Settings" 
-          : "Please set up your AI model in Settings",
-        variant: "destructive",
-      });
+    if (isOfflineMode) {
+      handleCompose();
       return;
     }
 
     setIsLoading(true);
     // Set generating status for global stats
     setGenerating(true);
+    // One group of batchSize variations per non-empty line; an image alone is one idea.
+    // Wildcards expand again here so random mode draws a fresh sample each run.
+    const ideas = wildcardPreview
+      ? expandIdeas(splitIdeas(userInput), wildcardLists, { mode: wildcardMode, randomCount, limit: wildcardLimit }).ideas
+      : splitIdeas(userInput);
+    if (ideas.length === 0 && referenceImage) {
+      ideas.push(REFERENCE_IMAGE_IDEA);
+    }
+    const totalSlots = ideas.length * batchSize;
+    setBatchIdeas(ideas);
+    setStoryboard(null);
     // Initialize with empty placeholders to show loading state for each slot
-    setGeneratedPrompts(new Array(batchSize).fill(null));
-    setProgress({ completed: 0, total: batchSize });
+    setGeneratedPrompts(new Array(totalSlots).fill(null));
+    setStreamingPrompts({});
+    setRefineThreads({});
+    setHistoryRefs({});
+    setDiffOpen({});
+    setProgress({ queued: totalSlots, running: 0, done: 0, total: totalSlots });
     
+    // Finished prompts by slot, compacted into the cards once the batch ends
+    const slots: (GeneratedPrompt | null)[] = new Array(totalSlots).fill(null);
     // Track which prompts have been saved to history
     const savedToHistory = new Set<number>();
+    let failedCount = 0;
+    let cancelledCount = 0;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
       const results = await generatePromptBatch({
@@ -147,22 +316,45 @@ const handleGenerate = async () => {
         provider,
         model: provider === "custom" ? selectedCustomModel?.modelId || "" : model,
         promptType,
-        userInput,
-        baseUrl: selectedCustomModel?.baseUrl,
+        userInput: wildcardPreview ? ideas.join("\n") : userInput,
+        baseUrl: baseUrlToUse,
         batchSize,
         creativity,
         backgroundStyle,
+        framing: framingToUse,
+        character: selectedCharacter,
         promptLength,
-        onProgress: (completed, total) => {
-          setProgress({ completed, total });
+        signal: controller.signal,
+        fallbacks: fallbacksToUse,
+        concurrencyLimits,
+        targetPlatform: platformToUse,
+        structuredOutput,
+        mode: modeToUse,
+        preservePhrases,
+        image: referenceImage ?? undefined,
+        outputLanguage,
+        similarityThreshold,
+        onProgress: setProgress,
+        onToken: appendStreamingText,
+        onPromptFailed: () => {
+          failedCount++;
         },
+        onPromptCancelled: () => {
+          cancelledCount++;
+        },
+        // The slot starts over on the next provider, so drop the partial stream
+        onFallback: (index) => clearStreamingText(index),
+        // Too close to a sibling: the slot streams again with a "differ from these" hint
+        onDiversityRetry: (index) => clearStreamingText(index),
         onPromptReady: (prompt, index) => {
-          // Stream each prompt as it completes
+          slots[index] = prompt;
+          // Swap the raw streamed text for the cleaned, IP-filtered prompt
           setGeneratedPrompts(prev => {
             const updated = [...prev];
             updated[index] = prompt;
             return updated;
           });
+          clearStreamingText(index);
           
           // Increment global prompt count for EACH individual prompt
           incrementPrompt();
@@ -170,11 +362,28 @@ const handleGenerate = async () => {
           // Save to history immediately when ready
           if (!savedToHistory.has(index)) {
             savedToHistory.add(index);
-            addToHistory({
+            const saved = addToHistory({
               promptType,
-              userInput,
-              generatedPrompt: prompt,
+              userInput: prompt.idea,
+              generatedPrompt: prompt.text,
+              provider: prompt.provider,
+              model: prompt.model,
+              ideaIndex: prompt.ideaIndex,
+              ideaCount: ideas.length,
+              negativePrompt: prompt.negativePrompt,
+              styleTags: prompt.styleTags,
+              subject: prompt.subject,
+              usage: prompt.usage,
+              costUsd: getPromptCost(prompt),
+              referenceImage: prompt.referenceImage,
+              translatedIdea: prompt.translatedIdea,
+              inputLanguage: prompt.inputLanguage,
+              mode: prompt.mode === "enhance" ? prompt.mode : undefined,
+              framing: prompt.framing,
+              character: prompt.character,
+              characterId: prompt.characterId,
             });
+            setHistoryRefs(prev => ({ ...prev, [index]: { id: saved.id, version: 1 } }));
           }
           
           // Auto-scroll to output on first result
@@ -186,28 +395,244 @@ const handleGenerate = async () => {
         },
       });
       
-      // Final update with all results (in case any were missed)
-      setGeneratedPrompts(results);
+      // Drop the slots that failed or were cancelled
+      showCompactedSlots(slots);
       
+      const skipped = [
+        cancelledCount > 0 && `${cancelledCount} cancelled`,
+        failedCount > 0 && `${failedCount} failed`,
+      ].filter(Boolean).join(", ");
       toast({
         title: `✨ ${results.length} Prompt${results.length > 1 ? 's' : ''} Generated!`,
-        description: "Your magic prompts are ready and saved to history",
+        description: skipped
+          ? `Saved to history (${skipped})`
+          : "Your magic prompts are ready and saved to history",
       });
     } catch (error) {
-      toast({
-        title: "Generation Failed",
-        description: error instanceof Error ? error.message : "Something went wrong",
-        variant: "destructive",
-      });
+      if (isAbortError(error)) {
+        toast({
+          title: "Generation Stopped",
+          description: `${cancelledCount} prompt${cancelledCount !== 1 ? 's' : ''} cancelled before finishing`,
+        });
+      } else {
+        toast({
+          title: "Generation Failed",
+          description: error instanceof Error ? error.message : "Something went wrong",
+          variant: "destructive",
+        });
+      }
       // Clear empty placeholders on error
-      setGeneratedPrompts(prev => prev.filter(p => p !== null));
+      showCompactedSlots(slots);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingPrompts({});
       setIsLoading(false);
       // Clear generating status for global stats
       setGenerating(false);
     }
   };
   
+  /**
+   * Show only the slots that got a prompt. Card state keyed by slot index
+   * (history refs, refine threads, diff toggles) moves along with its card,
+   * so a refine still continues the history item the card was saved as.
+   */
+  const showCompactedSlots = (slots: (GeneratedPrompt | null)[]) => {
+    const newIndex = new Map<number, number>();
+    slots.forEach((prompt, index) => {
+      if (prompt !== null) newIndex.set(index, newIndex.size);
+    });
+    const rekey = <T,>(record: Record<number, T>): Record<number, T> => {
+      const moved: Record<number, T> = {};
+      for (const [index, value] of Object.entries(record)) {
+        const target = newIndex.get(Number(index));
+        if (target !== undefined) moved[target] = value;
+      }
+      return moved;
+    };
+    setGeneratedPrompts(slots.filter((prompt): prompt is GeneratedPrompt => prompt !== null));
+    setHistoryRefs(rekey);
+    setRefineThreads(rekey);
+    setDiffOpen(rekey);
+  };
+
+  /** Save an offline prompt to history like a generated one and remember its history item */
+  const recordComposedPrompt = (prompt: GeneratedPrompt, index: number, ideaCount: number) => {
+    incrementPrompt();
+    const saved = addToHistory({
+      promptType,
+      userInput: prompt.idea,
+      generatedPrompt: prompt.text,
+      provider: prompt.provider,
+      model: prompt.model,
+      ideaIndex: prompt.ideaIndex,
+      ideaCount,
+      negativePrompt: prompt.negativePrompt,
+      inputLanguage: prompt.inputLanguage,
+      mode: prompt.mode === "enhance" ? prompt.mode : undefined,
+      seed: prompt.seed,
+      framing: prompt.framing,
+      character: prompt.character,
+      characterId: prompt.characterId,
+    });
+    setHistoryRefs(prev => ({ ...prev, [index]: { id: saved.id, version: 1 } }));
+  };
+
+  /**
+   * Build the batch from the template vocabulary, without an API call. Used
+   * when no model is configured or the offline switch is on.
+   */
+  const handleCompose = () => {
+    if (referenceImage) {
+      toast({
+        title: "Image Needs a Model",
+        description: "The offline composer can't read images. Remove the image or set up a vision model in Settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Random wildcard draws follow the seed too, so the whole batch can be reproduced
+    const ideas = wildcardPreview
+      ? expandIdeas(splitIdeas(userInput), wildcardLists, { mode: wildcardMode, randomCount, limit: wildcardLimit, random: createSeededRandom(composerSeed) }).ideas
+      : splitIdeas(userInput);
+    const results = composeOfflineBatch({
+      promptType,
+      userInput: ideas.join("\n"),
+      seed: composerSeed,
+      batchSize,
+      backgroundStyle,
+      framing: framingToUse,
+      character: selectedCharacter,
+      promptLength,
+      creativity,
+      targetPlatform: platformToUse,
+      mode: modeToUse,
+    });
+
+    setBatchIdeas(ideas);
+    setStoryboard(null);
+    setGeneratedPrompts(results);
+    setStreamingPrompts({});
+    setRefineThreads({});
+    setHistoryRefs({});
+    setDiffOpen({});
+    results.forEach((prompt, index) => recordComposedPrompt(prompt, index, ideas.length));
+
+    toast({
+      title: `✨ ${results.length} Prompt${results.length > 1 ? 's' : ''} Composed Offline!`,
+      description: hasValidKey
+        ? `Built from the template vocabulary with seed ${composerSeed}`
+        : "No AI model is set up, so these were built from the template vocabulary. Add an API key in Settings for AI prompts",
+    });
+    setTimeout(() => {
+      outputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  };
+  
+  /**
+   * Write the idea as one storyboard: consecutive shots with shared continuity,
+   * a camera move and a duration each. Needs a model; saved to history as a shot list.
+   */
+  const handleStoryboard = async () => {
+    if (!hasValidKey) {
+      toast({
+        title: "Storyboard Needs a Model",
+        description: "The offline composer writes single prompts only. Set up a model in Settings for storyboards",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Several lines describe the same sequence
+    const idea = splitIdeas(userInput).join(" ");
+    setIsLoading(true);
+    setGenerating(true);
+    setProgress({ queued: 0, running: 1, done: 0, total: 1 });
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const result = await generateStoryboard({
+        apiKey: apiKeyToUse,
+        provider,
+        model: provider === "custom" ? selectedCustomModel?.modelId || "" : model,
+        baseUrl: baseUrlToUse,
+        promptType,
+        idea,
+        shotCount,
+        totalDuration: storyboardDuration,
+        creativity,
+        backgroundStyle,
+        framing: framingToUse,
+        character: selectedCharacter,
+        signal: controller.signal,
+        fallbacks: fallbacksToUse,
+        concurrencyLimits,
+      });
+
+      setStoryboard(result);
+      setGeneratedPrompts([]);
+      setBatchIdeas([]);
+      incrementPrompt();
+      addToHistory({
+        promptType,
+        userInput: result.idea,
+        generatedPrompt: formatShotListText(result),
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage,
+        costUsd: estimateCost(result.usage, result.model, result.provider, prices),
+        mode: "storyboard",
+        framing: result.framing,
+        character: result.character,
+        characterId: result.characterId,
+      });
+
+      toast({
+        title: `🎬 ${result.shots.length}-Shot Storyboard Ready!`,
+        description: "Saved to history as a shot list",
+      });
+      setTimeout(() => {
+        outputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }, 100);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Storyboard Stopped",
+          description: "The storyboard was cancelled before finishing",
+        });
+      } else {
+        toast({
+          title: "Storyboard Failed",
+          description: error instanceof Error ? error.message : "Something went wrong",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setProgress({ queued: 0, running: 0, done: 1, total: 1 });
+      setIsLoading(false);
+      setGenerating(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const appendStreamingText = (index: number, delta: string) => {
+    setStreamingPrompts(prev => ({ ...prev, [index]: (prev[index] || "") + delta }));
+  };
+
+  const clearStreamingText = (index: number) => {
+    setStreamingPrompts(prev => {
+      const { [index]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const handleCopy = async (prompt: string, index: number) => {
     await navigator.clipboard.writeText(prompt);
     setCopiedIndex(index);
@@ -218,9 +643,19 @@ const handleGenerate = async () => {
     setTimeout(() => setCopiedIndex(null), 2000);
   };
 
+  const handleCopyNegative = async (negativePrompt: string, index: number) => {
+    await navigator.clipboard.writeText(negativePrompt);
+    setCopiedNegativeIndex(index);
+    toast({
+      title: "Copied!",
+      description: `Negative prompt #${index + 1} copied to clipboard`,
+    });
+    setTimeout(() => setCopiedNegativeIndex(null), 2000);
+  };
+
 const handleCopyAll = async () => {
-    const completedPrompts = generatedPrompts.filter((p): p is string => p !== null);
-    const allPrompts = completedPrompts.map((p, i) => `#${i + 1}: ${p}`).join("\n\n");
+    const completedPrompts = generatedPrompts.filter((p): p is GeneratedPrompt => p !== null);
+    const allPrompts = completedPrompts.map((p, i) => `#${i + 1}: ${p.text}`).join("\n\n");
     await navigator.clipboard.writeText(allPrompts);
     toast({
       title: "All Copied!",
@@ -229,14 +664,55 @@ const handleCopyAll = async () => {
   };
   
   const handleRegenerate = async (index: number) => {
-    const hasValidKey = provider === "custom" 
-      ? !!selectedCustomModel?.apiKey 
-      : !!apiKeyToUse;
+    // Regenerate from the prompt's own idea, not the whole textarea
+    const previous = generatedPrompts[index];
+    const idea = previous?.idea ?? userInput;
+    const ideaIndex = previous?.ideaIndex ?? 0;
+    const mode = previous?.mode ?? modeToUse;
 
-    if (!hasValidKey) return;
+    // Offline prompts (and any prompt once no model is left) are recomposed with a fresh seed
+    if (previous?.provider === OFFLINE_PROVIDER || !hasValidKey) {
+      if (previous?.referenceImage) {
+        toast({
+          title: "Image Needs a Model",
+          description: "The offline composer can't read images. Set up a vision model in Settings to regenerate this prompt",
+          variant: "destructive",
+        });
+        return;
+      }
+      const result = composeOfflinePrompt(idea, {
+        promptType,
+        seed: randomSeed(),
+        backgroundStyle,
+        framing: framingToUse,
+        character: selectedCharacter,
+        promptLength,
+        creativity,
+        targetPlatform: platformToUse,
+        mode,
+      }, ideaIndex);
+      setGeneratedPrompts(prev => {
+        const updated = [...prev];
+        updated[index] = result;
+        return updated;
+      });
+      setRefineThreads(prev => {
+        const { [index]: _, ...rest } = prev;
+        return rest;
+      });
+      recordComposedPrompt(result, index, batchIdeas.length || 1);
+      toast({
+        title: "✨ Recomposed!",
+        description: `Prompt #${index + 1} now uses seed ${result.seed}`,
+      });
+      return;
+    }
 
     setRegeneratingIndex(index);
     setGenerating(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
       const result = await generatePrompt({
@@ -244,11 +720,25 @@ const handleCopyAll = async () => {
         provider,
         model: provider === "custom" ? selectedCustomModel?.modelId || "" : model,
         promptType,
-        userInput,
-        baseUrl: selectedCustomModel?.baseUrl,
+        userInput: idea,
+        ideaIndex,
+        baseUrl: baseUrlToUse,
         creativity,
         backgroundStyle,
+        framing: framingToUse,
+        character: selectedCharacter,
         promptLength,
+        onToken: (delta) => appendStreamingText(index, delta),
+        signal: controller.signal,
+        fallbacks: fallbacksToUse,
+        concurrencyLimits,
+        targetPlatform: platformToUse,
+        structuredOutput,
+        mode,
+        preservePhrases,
+        image: getReferenceImageFor(previous),
+        outputLanguage,
+        onFallback: () => clearStreamingText(index),
       });
       
       setGeneratedPrompts(prev => {
@@ -260,10 +750,32 @@ const handleCopyAll = async () => {
       // Increment global prompt count for regenerated prompt
       incrementPrompt();
       
-      addToHistory({
+      const saved = addToHistory({
         promptType,
-        userInput,
-        generatedPrompt: result,
+        userInput: idea,
+        generatedPrompt: result.text,
+        provider: result.provider,
+        model: result.model,
+        ideaIndex,
+        ideaCount: batchIdeas.length || 1,
+        negativePrompt: result.negativePrompt,
+        styleTags: result.styleTags,
+        subject: result.subject,
+        usage: result.usage,
+        costUsd: getPromptCost(result),
+        mode: result.mode === "enhance" ? result.mode : undefined,
+        referenceImage: result.referenceImage,
+        translatedIdea: result.translatedIdea,
+        inputLanguage: result.inputLanguage,
+        framing: result.framing,
+        character: result.character,
+        characterId: result.characterId,
+      });
+      // A regenerated prompt starts a new version chain
+      setHistoryRefs(prev => ({ ...prev, [index]: { id: saved.id, version: 1 } }));
+      setRefineThreads(prev => {
+        const { [index]: _, ...rest } = prev;
+        return rest;
       });
       
       toast({
@@ -271,23 +783,148 @@ const handleCopyAll = async () => {
         description: `Prompt #${index + 1} has been regenerated`,
       });
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Regeneration Stopped",
+          description: `Prompt #${index + 1} was kept unchanged`,
+        });
+      } else {
+        toast({
+          title: "Regeneration Failed",
+          description: error instanceof Error ? error.message : "Something went wrong",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      clearStreamingText(index);
+      setRegeneratingIndex(null);
+      setGenerating(false);
+    }
+  };
+
+  /**
+   * Send the card's prompt back with a follow-up instruction. The result replaces
+   * the card and is saved as a child version of the card's history item.
+   */
+  const handleRefine = async (index: number, instruction: string): Promise<boolean> => {
+    const current = generatedPrompts[index];
+    if (!current || !hasValidKey) return false;
+
+    const turns = [...(refineThreads[index] || []), { prompt: current.text, instruction }];
+    const parent = historyRefs[index];
+    // The revision keeps the character profile the card was written for, renamed or not
+    const character = current.character ? characters.find((c) => c.id === current.characterId) : undefined;
+    if (current.character && !character) {
       toast({
-        title: "Regeneration Failed",
-        description: error instanceof Error ? error.message : "Something went wrong",
-        variant: "destructive",
+        title: "Character Not Found",
+        description: `The profile "${current.character}" was deleted, so this revision is written without it`,
+      });
+    }
+
+    setRefiningIndex(index);
+    setGenerating(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const result = await generatePrompt({
+        apiKey: apiKeyToUse,
+        provider,
+        model: provider === "custom" ? selectedCustomModel?.modelId || "" : model,
+        promptType,
+        userInput: current.idea,
+        ideaIndex: current.ideaIndex,
+        baseUrl: baseUrlToUse,
+        creativity,
+        backgroundStyle,
+        // The revision keeps the framing the card was written for
+        framing: current.framing,
+        character,
+        promptLength,
+        // Not streamed: the card keeps showing the current version (and the
+        // refine box its instruction) until the revised prompt is ready
+        signal: controller.signal,
+        fallbacks: fallbacksToUse,
+        concurrencyLimits,
+        targetPlatform: current.platform,
+        structuredOutput,
+        mode: current.mode,
+        preservePhrases,
+        image: getReferenceImageFor(current),
+        outputLanguage,
+        refinements: turns,
+      });
+
+      setGeneratedPrompts(prev => {
+        const updated = [...prev];
+        updated[index] = result;
+        return updated;
+      });
+      setRefineThreads(prev => ({ ...prev, [index]: turns }));
+
+      incrementPrompt();
+
+      const version = (parent?.version ?? turns.length) + 1;
+      const saved = addToHistory({
+        promptType,
+        userInput: current.idea,
+        generatedPrompt: result.text,
+        provider: result.provider,
+        model: result.model,
+        ideaIndex: current.ideaIndex,
+        ideaCount: batchIdeas.length || 1,
+        negativePrompt: result.negativePrompt,
+        styleTags: result.styleTags,
+        subject: result.subject,
+        usage: result.usage,
+        costUsd: getPromptCost(result),
+        mode: result.mode === "enhance" ? result.mode : undefined,
+        referenceImage: result.referenceImage,
+        translatedIdea: result.translatedIdea,
+        inputLanguage: result.inputLanguage,
+        framing: result.framing,
+        character: result.character,
+        characterId: result.characterId,
+        parentId: parent?.id,
+        version,
+        refinement: instruction,
+      });
+      setHistoryRefs(prev => ({ ...prev, [index]: { id: saved.id, version } }));
+
+      toast({
+        title: "✨ Refined!",
+        description: `Prompt #${index + 1} updated to v${version}`,
       });
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Refinement Stopped",
+          description: `Prompt #${index + 1} was kept unchanged`,
+        });
+      } else {
+        toast({
+          title: "Refinement Failed",
+          description: error instanceof Error ? error.message : "Something went wrong",
+          variant: "destructive",
+        });
+      }
+      return false;
     } finally {
-      setRegeneratingIndex(null);
+      abortControllerRef.current = null;
+      setRefiningIndex(null);
       setGenerating(false);
     }
   };
 
 const handleExportTxt = () => {
-    const completedPrompts = generatedPrompts.filter((p): p is string => p !== null);
+    const completedPrompts = generatedPrompts.filter((p): p is GeneratedPrompt => p !== null);
     const content = `Generate By: Mirava Studio.
 ==========================
 
-${completedPrompts.join('\n')}`;
+${completedPrompts.map(p => p.text).join('\n')}`;
     
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -308,7 +945,41 @@ ${completedPrompts.join('\n')}`;
   const handleUsePrompt = (item: PromptHistoryItem) => {
     setPromptType(item.promptType);
     setUserInput(item.userInput);
-    setGeneratedPrompts([item.generatedPrompt]);
+    setPromptMode(item.mode === "enhance" ? "enhance" : "generate");
+    setDiffOpen({});
+    setStoryboard(null);
+    setBatchIdeas([item.userInput]);
+    setGeneratedPrompts([{
+      text: item.generatedPrompt,
+      attempts: 1,
+      incomplete: false,
+      wordCount: item.generatedPrompt.split(/\s+/).filter(Boolean).length,
+      negativePrompt: item.negativePrompt,
+      styleTags: item.styleTags,
+      subject: item.subject,
+      structured: !!item.styleTags?.length || !!item.subject,
+      usage: item.usage,
+      platform: "generic",
+      mode: item.mode === "enhance" ? "enhance" : "generate",
+      idea: item.userInput,
+      ideaIndex: 0,
+      provider: item.provider === OFFLINE_PROVIDER ? OFFLINE_PROVIDER
+        : item.provider && isValidProvider(item.provider) ? item.provider as ApiProvider : provider,
+      model: item.model || "",
+      seed: item.seed,
+      framing: item.framing,
+      character: item.character,
+      characterId: item.characterId,
+    }]);
+    // Rebuild the refinement thread from the item's saved parent versions
+    const chain = getVersionChain(item.id);
+    setRefineThreads({
+      0: chain.slice(1).map((version, i) => ({
+        prompt: chain[i].generatedPrompt,
+        instruction: version.refinement || "",
+      })),
+    });
+    setHistoryRefs({ 0: { id: item.id, version: item.version ?? 1 } });
     toast({
       title: "Prompt Loaded",
       description: "Previous prompt has been loaded",
@@ -347,7 +1018,7 @@ ${completedPrompts.join('\n')}`;
               <div className="flex-1 min-w-0">
                 <p className="font-semibold text-sm sm:text-base">API Key Required</p>
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  Add your API key in settings to start generating
+                  Add your API key in settings to generate with AI. Until then, prompts are composed offline from the built-in templates
                 </p>
               </div>
               <Button variant="secondary" size="sm" asChild className="w-full sm:w-auto">
@@ -376,13 +1047,36 @@ ${completedPrompts.join('\n')}`;
             <CardTitle className="font-heading text-base sm:text-lg flex flex-col sm:flex-row sm:items-center gap-2 sm:justify-between">
               <div className="flex items-center gap-2">
                 <span className="w-7 h-7 sm:w-8 sm:h-8 bg-primary rounded-full border-2 border-border-strong flex items-center justify-center text-xs sm:text-sm text-primary-foreground font-bold">1</span>
-                <span>Describe Your Idea</span>
+                <span>{isEnhanceMode ? "Paste Your Prompt" : "Describe Your Idea"}</span>
               </div>
               <div className="flex items-center gap-2">
+                {supportsEnhance && (
+                  <div className="flex items-center rounded-xl border-2 border-border-strong overflow-hidden">
+                    {([
+                      { id: "generate", label: "Generate", icon: Sparkles },
+                      { id: "enhance", label: "Enhance", icon: WandSparkles },
+                    ] as const).map((option) => (
+                      <button
+                        key={option.id}
+                        onClick={() => setPromptMode(option.id)}
+                        className={cn(
+                          "flex items-center gap-1 px-2.5 py-1 text-xs font-semibold transition-colors",
+                          promptMode === option.id
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-background hover:bg-muted"
+                        )}
+                        title={option.id === "enhance" ? "Upgrade an existing prompt instead of writing a new one" : undefined}
+                      >
+                        <option.icon className="h-3.5 w-3.5" />
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".txt"
+                  accept=".txt,.png,.jpg,.jpeg,.webp,image/png,image/jpeg,image/webp"
                   onChange={handleFileUpload}
                   className="hidden"
                   id="file-upload"
@@ -394,14 +1088,44 @@ ${completedPrompts.join('\n')}`;
                   className="gap-1.5 text-xs"
                 >
                   <Upload className="h-3.5 w-3.5" />
-                  <span className="hidden sm:inline">Load from</span> TXT
+                  <span className="hidden sm:inline">Load</span> TXT / Image
                 </Button>
               </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="pt-0">
+            {referenceImage && (
+              <div className="mb-3 flex items-center gap-3 p-2 rounded-xl border-2 border-border bg-muted/50">
+                <img
+                  src={toDataUrl(referenceImage)}
+                  alt={referenceImage.name}
+                  className="h-16 w-16 sm:h-20 sm:w-20 object-cover rounded-lg border-2 border-border-strong"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold truncate flex items-center gap-1.5">
+                    <ImageIcon className="h-3.5 w-3.5 shrink-0" />
+                    {referenceImage.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {referenceImage.width}×{referenceImage.height} · Image to prompt, needs a vision-capable model
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setReferenceImage(null)}
+                  className="h-7 px-2 text-xs"
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
             <Textarea
-              placeholder="E.g., A cozy coffee shop interior with warm lighting and vintage furniture..."
+              placeholder={referenceImage
+                ? "Optional notes for the image, e.g. focus on the lighting, ignore the text on the sign..."
+                : isEnhanceMode
+                ? "Paste one existing prompt per line, e.g. cozy coffee shop interior, vintage furniture, warm light, 35mm --ar 3:2"
+                : "E.g., A cozy coffee shop interior with warm lighting and vintage furniture..."}
               value={userInput}
               onChange={(e) => setUserInput(e.target.value)}
               className="min-h-[120px] sm:min-h-[150px] text-sm sm:text-base"
@@ -410,7 +1134,21 @@ ${completedPrompts.join('\n')}`;
               <div className="flex items-center gap-3">
                 <span>{userInput.length} characters</span>
                 <span>•</span>
-                <span>{userInput.split('\n').filter(line => line.trim()).length} idea{userInput.split('\n').filter(line => line.trim()).length !== 1 ? 's' : ''}</span>
+                <span>{userInput.split('\n').filter(line => line.trim()).length} {isEnhanceMode ? 'prompt' : 'idea'}{userInput.split('\n').filter(line => line.trim()).length !== 1 ? 's' : ''}</span>
+                {wildcardPreview && (
+                  <>
+                    <span>•</span>
+                    <span>{wildcardPreview.ideas.length} after wildcards</span>
+                  </>
+                )}
+                {inputLanguage === "id" && (
+                  <>
+                    <span>•</span>
+                    <span title="Change this in Settings → Output Language">
+                      {LANGUAGE_NAMES.id} → {outputLanguage === "english" ? "English prompt" : "Indonesian prompt"}
+                    </span>
+                  </>
+                )}
               </div>
               {userInput && (
                 <button
@@ -422,6 +1160,205 @@ ${completedPrompts.join('\n')}`;
               )}
             </div>
 
+            {/* Wildcards: combination count, expansion mode and the cap */}
+            {wildcardPreview && (
+              <div className="mt-3 p-3 rounded-xl border-2 border-border bg-muted/50 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5 text-sm font-medium">
+                    <Dices className="h-4 w-4" />
+                    {wildcardPreview.total} combination{wildcardPreview.total !== 1 ? 's' : ''}
+                    {wildcardPreview.ideas.length !== wildcardPreview.total && ` → ${wildcardPreview.ideas.length} used`}
+                  </span>
+                  <div className="flex flex-wrap gap-1.5">
+                    {(["all", "random"] as WildcardMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setWildcardMode(mode)}
+                        className={cn(
+                          "px-2.5 py-1 text-xs font-medium rounded-lg border-2 transition-all",
+                          wildcardMode === mode
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                        )}
+                      >
+                        {mode === "all" ? "All combinations" : "Random"}
+                      </button>
+                    ))}
+                    {wildcardMode === "random" && RANDOM_COUNT_OPTIONS.map((count) => (
+                      <button
+                        key={count}
+                        onClick={() => setRandomCount(count)}
+                        className={cn(
+                          "px-2.5 py-1 text-xs font-medium rounded-lg border-2 transition-all",
+                          randomCount === count
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                        )}
+                        title={`Up to ${count} random picks per line`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {wildcardPreview.capped && (
+                  <p className="text-xs text-destructive">
+                    Capped at {MAX_WILDCARD_PROMPTS} prompts: only the first {wildcardPreview.ideas.length} ideas × {batchSize} variations will be generated
+                  </p>
+                )}
+                {wildcardPreview.missing.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    No word list for {wildcardPreview.missing.map((name) => `__${name}__`).join(", ")}.{" "}
+                    <Link to="/settings" className="underline underline-offset-2">Add it in Settings</Link>
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground truncate" title={wildcardPreview.ideas.join("\n")}>
+                  e.g. {wildcardPreview.ideas.slice(0, 3).join(" · ")}
+                </p>
+              </div>
+            )}
+
+            {/* Enhance: key phrases kept verbatim */}
+            {isEnhanceMode && (
+              <div className="mt-3 p-3 rounded-xl border-2 border-border bg-muted/50">
+                <label className="flex items-center justify-between gap-2 text-sm font-medium">
+                  <span>Keep key phrases verbatim</span>
+                  <Switch checked={preservePhrases} onCheckedChange={setPreservePhrases} />
+                </label>
+                {preservePhrases && (() => {
+                  // Preview for the first prompt; every line gets its own list
+                  const phrases = extractKeyPhrases(splitIdeas(userInput)[0] || "");
+                  return phrases.length > 0 ? (
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {phrases.map((phrase) => (
+                        <span key={phrase} className="px-2 py-0.5 rounded-full text-[10px] font-medium border border-border-strong bg-card">
+                          {phrase}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-xs text-muted-foreground">Subject and short descriptors of each prompt are kept as written</p>
+                  );
+                })()}
+              </div>
+            )}
+
+            {/* Offline composer: seeded picks from the template vocabulary */}
+            <div className="mt-3 p-3 rounded-xl border-2 border-border bg-muted/50">
+              <label className="flex items-center justify-between gap-2 text-sm font-medium">
+                <span className="flex items-center gap-2">
+                  <WifiOff className="h-4 w-4 text-muted-foreground" />
+                  Compose offline
+                </span>
+                <Switch checked={isOfflineMode} onCheckedChange={setOfflineComposer} disabled={!hasValidKey} />
+              </label>
+              {isOfflineMode && (
+                <>
+                  <div className="mt-2 flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Seed:</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_SEED}
+                      value={composerSeed}
+                      onChange={(e) => {
+                        const seed = parseSeed(e.target.value);
+                        if (seed !== undefined) setComposerSeed(seed);
+                      }}
+                      className="w-32 h-8 px-2 text-sm font-bold rounded-lg border-2 border-border-strong bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComposerSeed(randomSeed())}
+                      className="h-8 px-2"
+                      title="New random seed"
+                    >
+                      <Dices className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {hasValidKey
+                      ? "Prompts are built from the template vocabulary without an API call."
+                      : "No AI model is set up, so prompts are built from the template vocabulary."}{" "}
+                    The same idea, settings and seed give the same prompts.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Storyboard: one idea as consecutive shots, video types only */}
+            {promptType.startsWith("video") && !isEnhanceMode && (
+              <div className="mt-3 p-3 rounded-xl border-2 border-border bg-muted/50">
+                <label className="flex items-center justify-between gap-2 text-sm font-medium">
+                  <span className="flex items-center gap-2">
+                    <Clapperboard className="h-4 w-4 text-muted-foreground" />
+                    Storyboard (multi-shot)
+                  </span>
+                  <Switch checked={storyboardMode} onCheckedChange={setStoryboardMode} disabled={!!referenceImage} />
+                </label>
+                {isStoryboardMode && (
+                  <>
+                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="flex items-center gap-1.5 flex-wrap">
+                        <span className="text-xs text-muted-foreground mr-1">Shots:</span>
+                        {SHOT_COUNT_OPTIONS.map((count) => (
+                          <button
+                            key={count}
+                            onClick={() => setShotCount(count)}
+                            className={cn(
+                              "px-2.5 py-1 text-xs font-medium rounded-lg border transition-all",
+                              shotCount === count
+                                ? "border-primary bg-primary text-primary-foreground"
+                                : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                            )}
+                          >
+                            {count}
+                          </button>
+                        ))}
+                        <input
+                          type="number"
+                          min={MIN_SHOTS}
+                          max={MAX_SHOTS}
+                          value={shotCount}
+                          onChange={(e) => setShotCount(clampShotCount(parseInt(e.target.value)))}
+                          className="w-14 h-7 px-2 text-xs font-bold rounded-lg border-2 border-border-strong bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      </div>
+                      <div className="flex items-center gap-1.5 flex-wrap">
+                        <span className="text-xs text-muted-foreground mr-1">Duration:</span>
+                        {STORYBOARD_DURATION_OPTIONS.map((seconds) => (
+                          <button
+                            key={seconds}
+                            onClick={() => setStoryboardDuration(seconds)}
+                            className={cn(
+                              "px-2.5 py-1 text-xs font-medium rounded-lg border transition-all",
+                              storyboardDuration === seconds
+                                ? "border-primary bg-primary text-primary-foreground"
+                                : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                            )}
+                          >
+                            {seconds}s
+                          </button>
+                        ))}
+                        <input
+                          type="number"
+                          min={MIN_STORYBOARD_DURATION}
+                          max={MAX_STORYBOARD_DURATION}
+                          value={storyboardDuration}
+                          onChange={(e) => setStoryboardDuration(clampStoryboardDuration(parseInt(e.target.value)))}
+                          className="w-16 h-7 px-2 text-xs font-bold rounded-lg border-2 border-border-strong bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      </div>
+                    </div>
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      The whole idea becomes {shotCount} consecutive shots over {storyboardDuration}s with the same characters, wardrobe, lighting and location. Each shot gets a camera move and a duration.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Prompt Count & Creativity */}
             <div className="mt-4 flex flex-col gap-4">
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -570,10 +1507,129 @@ ${completedPrompts.join('\n')}`;
                   )}
                 </div>
               )}
+
+              {/* Framing Options - aspect ratio, resolution and camera, same types as the background */}
+              {isVisualPromptType && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-2">
+                      <Camera className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm font-medium">Framing:</span>
+                    </div>
+                    {hasFraming(framing) && (
+                      <button
+                        onClick={() => setFraming({})}
+                        className="text-xs text-primary font-semibold hover:underline"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                    {framingFields.map(({ field, label, options }) => (
+                      <div key={field} className="space-y-1">
+                        <span className="text-[10px] sm:text-xs text-muted-foreground">{label}</span>
+                        <Select value={framing[field] ?? "none"} onValueChange={(value) => setFramingField(field, value)}>
+                          <SelectTrigger className="h-9 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="max-h-60">
+                            <SelectItem value="none" className="text-xs">Auto</SelectItem>
+                            {options.map((option) => (
+                              <SelectItem key={option.id} value={option.id} className="text-xs">
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  {hasFraming(framing) && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      ✓ Prompt akan include: "{describeFraming(framing)}"
+                      {platformToUse === "midjourney" && framing.aspectRatio && " (aspect ratio sebagai --ar)"}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              {/* Character profile - injected into every request, any prompt type */}
+              <div className="mt-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <UserRound className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Character:</span>
+                </div>
+                {characters.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Save a recurring character or mascot once and reuse it in every prompt.{" "}
+                    <Link to="/settings" className="underline underline-offset-2">Add it in Settings</Link>
+                  </p>
+                ) : (
+                  <>
+                    <Select value={selectedCharacterId ?? "none"} onValueChange={(value) => setSelectedCharacterId(value === "none" ? null : value)}>
+                      <SelectTrigger className="h-9 text-xs sm:w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-60">
+                        <SelectItem value="none" className="text-xs">None</SelectItem>
+                        {characters.map((character) => (
+                          <SelectItem key={character.id} value={character.id} className="text-xs">
+                            {character.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedCharacter && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        ✓ Prompt akan include: "{[selectedCharacter.description, selectedCharacter.outfit, selectedCharacter.palette].filter(Boolean).join(" · ")}"
+                        {selectedCharacter.forbidden && ` (tanpa: ${selectedCharacter.forbidden})`}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Target Platform Selector - image types only */}
+              {isImagePromptType && (
+                <div className="mt-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Wand2 className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Target Platform:</span>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                    {Object.values(targetPlatforms).map((platform) => (
+                      <button
+                        key={platform.id}
+                        onClick={() => setTargetPlatform(platform.id)}
+                        className={cn(
+                          "px-3 py-2 text-xs font-medium rounded-lg border-2 transition-all text-left",
+                          targetPlatform === platform.id
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                        )}
+                        title={platform.description}
+                      >
+                        {platform.label}
+                      </button>
+                    ))}
+                  </div>
+                  {targetPlatform !== "generic" && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      ✓ {targetPlatforms[targetPlatform].description}
+                      {targetPlatforms[targetPlatform].maxWords && ` · max ${targetPlatforms[targetPlatform].maxWords} words`}
+                    </p>
+                  )}
+                </div>
+              )}
               
               <div className="flex items-center gap-2">
-                {(() => {
-                  const ideaCount = userInput.split('\n').filter(line => line.trim()).length || 1;
+                {isStoryboardMode ? (
+                  <span className="px-3 py-2 bg-quaternary text-quaternary-foreground rounded-full border-2 border-border-strong font-bold text-xs whitespace-nowrap">
+                    Total: {shotCount} shots
+                  </span>
+                ) : (() => {
+                  const ideaCount = (wildcardPreview ? wildcardPreview.ideas.length : splitIdeas(userInput).length) || 1;
                   const totalPrompts = batchSize * ideaCount;
                   return (
                     <span className="px-3 py-2 bg-quaternary text-quaternary-foreground rounded-full border-2 border-border-strong font-bold text-xs whitespace-nowrap">
@@ -584,21 +1640,32 @@ ${completedPrompts.join('\n')}`;
                 
                 <Button
                   onClick={handleGenerate}
-                  disabled={isLoading || !hasApiKey}
+                  disabled={isLoading}
                   className="flex-1"
                 >
                   {isLoading ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm">{progress.completed}/{progress.total}</span>
+                      <span className="text-sm">{progress.done}/{progress.total}</span>
                     </>
                   ) : (
                     <>
                       <Sparkles className="h-4 w-4" strokeWidth={2.5} />
-                      <span className="text-sm">Generate</span>
+                      <span className="text-sm">{isStoryboardMode ? "Storyboard" : isOfflineMode ? "Compose" : "Generate"}</span>
                     </>
                   )}
                 </Button>
+
+                {(isLoading || regeneratingIndex !== null || refiningIndex !== null) && (
+                  <Button
+                    variant="destructive"
+                    onClick={handleStop}
+                    className="gap-1.5"
+                  >
+                    <Square className="h-3.5 w-3.5 fill-current" />
+                    <span className="text-sm">Stop</span>
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -606,13 +1673,16 @@ ${completedPrompts.join('\n')}`;
             {isLoading && (
               <div className="mt-4">
                 <div className="flex items-center justify-between text-sm mb-2">
-                  <span className="text-muted-foreground">Generating prompts...</span>
-                  <span className="font-bold text-primary">{progress.completed} / {progress.total}</span>
+                  <span className="text-muted-foreground">
+                    {isStoryboardMode ? "Writing storyboard..." : "Generating prompts..."} {progress.running} running
+                    {progress.queued > 0 && `, ${progress.queued} queued`}
+                  </span>
+                  <span className="font-bold text-primary">{progress.done} / {progress.total}</span>
                 </div>
                 <div className="h-3 bg-muted rounded-full border-2 border-border overflow-hidden">
                   <div 
                     className="h-full bg-primary transition-all duration-300 ease-out"
-                    style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
                   />
                 </div>
               </div>
@@ -631,6 +1701,23 @@ ${completedPrompts.join('\n')}`;
                   {isLoading && (
                     <Loader2 className="h-4 w-4 animate-spin text-primary" />
                   )}
+                  {(() => {
+                    // Batch total over the slots that reported usage
+                    const completed = generatedPrompts.filter((p): p is GeneratedPrompt => p !== null);
+                    const batchUsage = sumTokenUsage(completed.map((p) => p.usage));
+                    if (!batchUsage) return null;
+                    const costs = completed.map(getPromptCost);
+                    const batchCost = costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0);
+                    const hasUnpriced = costs.some((cost, i) => cost === undefined && completed[i].usage);
+                    return (
+                      <span
+                        className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold border border-border bg-card"
+                        title={`${batchUsage.inputTokens} input + ${batchUsage.outputTokens} output tokens${hasUnpriced ? " (some models have no price set)" : ""}`}
+                      >
+                        {formatTokens(batchUsage.totalTokens)} tokens · ~{formatCost(batchCost)}{hasUnpriced && "+"}
+                      </span>
+                    );
+                  })()}
                 </div>
                 <div className="flex items-center gap-2">
                   <Button
@@ -657,13 +1744,32 @@ ${completedPrompts.join('\n')}`;
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0 space-y-3">
-              {generatedPrompts.map((prompt, index) => (
+              {generatedPrompts.map((prompt, index) => {
+                const streamingText = streamingPrompts[index];
+                // Placeholders don't know their idea yet; slots are laid out idea by idea
+                const ideaIndex = prompt?.ideaIndex ?? Math.floor(index / batchSize);
+                const previous = generatedPrompts[index - 1];
+                const previousIdeaIndex = index === 0
+                  ? -1
+                  : previous?.ideaIndex ?? Math.floor((index - 1) / batchSize);
+                const showIdeaHeader = batchIdeas.length > 1 && ideaIndex !== previousIdeaIndex;
+                return (
+                <Fragment key={index}>
+                {showIdeaHeader && (
+                  <div className={cn("flex items-center gap-2", index > 0 && "pt-3")}>
+                    <span className="px-2 py-0.5 rounded-full text-xs font-bold border-2 border-border-strong bg-tertiary">
+                      Idea {ideaIndex + 1}/{batchIdeas.length}
+                    </span>
+                    <span className="text-xs sm:text-sm font-medium text-muted-foreground truncate">
+                      {prompt?.idea ?? batchIdeas[ideaIndex]}
+                    </span>
+                  </div>
+                )}
                 <div 
-                  key={index} 
                   className={cn(
                     "bg-muted rounded-xl p-3 sm:p-4 border-2 border-border relative group transition-all",
-                    regeneratingIndex === index && "opacity-50",
-                    prompt === null && "animate-pulse"
+                    (regeneratingIndex === index || refiningIndex === index) && !streamingText && "opacity-50",
+                    prompt === null && !streamingText && "animate-pulse"
                   )}
                 >
                   <div className="flex items-start justify-between gap-2 mb-2">
@@ -676,20 +1782,149 @@ ${completedPrompts.join('\n')}`;
                       )}>
                         #{index + 1}
                       </span>
-                      {prompt === null && (
+                      {(prompt === null || streamingText) && (
                         <span className="text-xs text-muted-foreground flex items-center gap-1">
                           <Loader2 className="h-3 w-3 animate-spin" />
-                          Generating...
+                          {streamingText ? "Streaming..." : "Generating..."}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && (
+                        <span className="text-xs text-muted-foreground" title={prompt.model ? `${prompt.provider} · ${prompt.model}` : prompt.provider}>
+                          {prompt.wordCount} words
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.usage && (() => {
+                        const cost = getPromptCost(prompt);
+                        return (
+                          <span
+                            className="text-[10px] text-muted-foreground"
+                            title={`${prompt.usage.inputTokens} input + ${prompt.usage.outputTokens} output tokens`}
+                          >
+                            {formatTokens(prompt.usage.totalTokens)} tok{cost !== undefined && ` · ${formatCost(cost)}`}
+                          </span>
+                        );
+                      })()}
+                      {prompt !== null && !streamingText && prompt.provider === OFFLINE_PROVIDER && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-card border-border"
+                          title="Composed offline from the template vocabulary; the same idea, settings and seed give this prompt again"
+                        >
+                          Offline · seed {prompt.seed}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && hasFraming(prompt.framing) && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-card border-border max-w-[12rem] truncate"
+                          title={`Framing: ${describeFraming(prompt.framing)}`}
+                        >
+                          🎥 {describeFraming(prompt.framing)}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.character && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-card border-border max-w-[10rem] truncate"
+                          title={`Character: ${prompt.character}`}
+                        >
+                          👤 {prompt.character}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.fallbackFrom && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-secondary/20 border-secondary/40"
+                          title={`${prompt.fallbackFrom} was unavailable, so this prompt was generated by ${prompt.provider}${prompt.model ? ` · ${prompt.model}` : ""}`}
+                        >
+                          Fallback: {prompt.provider}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && !prompt.fallbackFrom && prompt.provider !== OFFLINE_PROVIDER && (
+                        <span
+                          className="text-[10px] text-muted-foreground max-w-[10rem] truncate"
+                          title={prompt.model ? `${prompt.provider} · ${prompt.model}` : prompt.provider}
+                        >
+                          {prompt.provider}
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.attempts > 1 && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-tertiary/20 border-tertiary/40"
+                          title="The first response was cut off, so the model was asked to continue"
+                        >
+                          {prompt.attempts} attempts
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.incomplete && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-destructive/10 text-destructive border-destructive/30 flex items-center gap-1"
+                          title="Still cut off or short of the word target after retries"
+                        >
+                          <AlertCircle className="h-3 w-3" />
+                          Below target
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && similarityScores[index] !== undefined && (() => {
+                        const score = similarityScores[index];
+                        const tooSimilar = similarityThreshold > 0 && score >= similarityThreshold;
+                        return (
+                          <span
+                            className={cn(
+                              "px-2 py-0.5 rounded-full text-[10px] font-semibold border",
+                              tooSimilar ? "bg-secondary/20 border-secondary/40" : "bg-card border-border"
+                            )}
+                            title={`Highest wording overlap with another variation of this idea${prompt.diversityRetries ? ". Regenerated once for being too similar" : ""}`}
+                          >
+                            {prompt.diversityRetries ? "↻ " : ""}≈{formatSimilarity(score)} similar
+                          </span>
+                        );
+                      })()}
+                      {prompt !== null && !streamingText && prompt.missingPhrases && prompt.missingPhrases.length > 0 && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-secondary/20 border-secondary/40"
+                          title={`Reworded or dropped: ${prompt.missingPhrases.join(", ")}`}
+                        >
+                          {prompt.missingPhrases.length}/{prompt.keyPhrases?.length} key phrases changed
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.lint && (
+                        <span
+                          className={cn(
+                            "px-2 py-0.5 rounded-full text-[10px] font-semibold border",
+                            prompt.lint.score < 75 ? "bg-secondary/20 border-secondary/40" : "bg-card border-border"
+                          )}
+                          title={prompt.lint.missing.length > 0
+                            ? `Missing: ${prompt.lint.missing.join(", ")}`
+                            : "Covers subject, environment, lighting, atmosphere, style, colors, composition and textures"}
+                        >
+                          Coverage {prompt.lint.score}%
+                        </span>
+                      )}
+                      {prompt !== null && !streamingText && prompt.lint && prompt.lint.contradictions.length > 0 && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-destructive/10 text-destructive border-destructive/30 flex items-center gap-1"
+                          title={prompt.lint.contradictions.map((c) => `"${c.term}" conflicts with the style requirement (no ${c.style})`).join("\n")}
+                        >
+                          <AlertCircle className="h-3 w-3" />
+                          Style conflict: {prompt.lint.contradictions.map((c) => c.term).join(", ")}
                         </span>
                       )}
                     </div>
-                    {prompt !== null && (
+                    {prompt !== null && !streamingText && (
                       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {prompt.mode === "enhance" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDiffOpen(prev => ({ ...prev, [index]: !prev[index] }))}
+                            className={cn("h-7 px-2", diffOpen[index] && "bg-accent")}
+                          >
+                            <GitCompare className="h-3.5 w-3.5 mr-1" />
+                            <span className="text-xs">Diff</span>
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => handleRegenerate(index)}
-                          disabled={regeneratingIndex !== null || isLoading}
+                          disabled={regeneratingIndex !== null || refiningIndex !== null || isLoading}
                           className="h-7 px-2"
                         >
                           {regeneratingIndex === index ? (
@@ -704,7 +1939,7 @@ ${completedPrompts.join('\n')}`;
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleCopy(prompt, index)}
+                          onClick={() => handleCopy(prompt.text, index)}
                           className="h-7 px-2"
                         >
                           {copiedIndex === index ? (
@@ -722,8 +1957,82 @@ ${completedPrompts.join('\n')}`;
                       </div>
                     )}
                   </div>
-                  {prompt !== null ? (
-                    <p className="whitespace-pre-wrap text-xs sm:text-sm leading-relaxed">{prompt}</p>
+                  {streamingText ? (
+                    <p className="whitespace-pre-wrap text-xs sm:text-sm leading-relaxed text-muted-foreground">
+                      {streamingText}
+                      <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-primary animate-pulse" />
+                    </p>
+                  ) : prompt !== null ? (
+                    <>
+                      {prompt.mode === "enhance" && diffOpen[index] ? (
+                        <PromptDiff before={prompt.idea} after={prompt.text} />
+                      ) : (
+                        <p className="whitespace-pre-wrap text-xs sm:text-sm leading-relaxed">{prompt.text}</p>
+                      )}
+                      {prompt.negativePrompt && (
+                        <div className="mt-2 pt-2 border-t border-border/50">
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="text-xs font-semibold">Negative prompt</span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleCopyNegative(prompt.negativePrompt!, index)}
+                              className="h-6 px-2"
+                            >
+                              {copiedNegativeIndex === index ? (
+                                <>
+                                  <Check className="h-3.5 w-3.5 mr-1" />
+                                  <span className="text-xs">Copied!</span>
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="h-3.5 w-3.5 mr-1" />
+                                  <span className="text-xs">Copy</span>
+                                </>
+                              )}
+                            </Button>
+                          </div>
+                          <p className="whitespace-pre-wrap text-xs text-muted-foreground leading-relaxed">{prompt.negativePrompt}</p>
+                        </div>
+                      )}
+                      {(prompt.subject || (prompt.styleTags && prompt.styleTags.length > 0)) && (
+                        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                          {prompt.subject && (
+                            <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold border border-border-strong bg-card">
+                              {prompt.subject}
+                            </span>
+                          )}
+                          {prompt.styleTags?.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-2 py-0.5 rounded-full text-[10px] font-medium border bg-quaternary/10 border-quaternary/30"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {prompt.translatedIdea && (
+                        <p className="mt-2 text-[11px] text-muted-foreground">
+                          <span className="font-semibold text-foreground">Translated idea:</span> {prompt.translatedIdea}
+                        </p>
+                      )}
+                      {prompt.lint && prompt.lint.missing.length > 0 && (
+                        <p className="mt-2 text-[11px] text-muted-foreground">
+                          <span className="font-semibold text-foreground">Not covered:</span> {prompt.lint.missing.join(", ")}
+                        </p>
+                      )}
+                      {/* Follow-up instructions need a model */}
+                      {prompt.provider !== OFFLINE_PROVIDER && (
+                        <PromptRefineBox
+                          thread={refineThreads[index] || []}
+                          baseVersion={(historyRefs[index]?.version ?? 1) - (refineThreads[index]?.length ?? 0)}
+                          isRefining={refiningIndex === index}
+                          disabled={isLoading || regeneratingIndex !== null || (refiningIndex !== null && refiningIndex !== index)}
+                          onRefine={(instruction) => handleRefine(index, instruction)}
+                        />
+                      )}
+                    </>
                   ) : (
                     <div className="space-y-2">
                       <div className="h-4 bg-muted-foreground/10 rounded w-full"></div>
@@ -732,11 +2041,28 @@ ${completedPrompts.join('\n')}`;
                     </div>
                   )}
                 </div>
-              ))}
+                </Fragment>
+                );
+              })}
             </CardContent>
           </Card>
         )}
         
+        {/* Storyboard Output - shot table with shot list export */}
+        {storyboard && (
+          <Card ref={outputRef} className="border-quaternary shadow-quaternary hover:translate-x-0 hover:translate-y-0">
+            <CardHeader className="pb-3 sm:pb-4">
+              <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+                <span className="w-7 h-7 sm:w-8 sm:h-8 bg-quaternary rounded-full border-2 border-border-strong flex items-center justify-center text-xs sm:text-sm text-quaternary-foreground font-bold">2</span>
+                <span className="truncate">Storyboard: {storyboard.idea}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <StoryboardTable storyboard={storyboard} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* History Panel */}
         <PromptHistoryPanel
           history={history}
@@ -1,76 +1,94 @@
 import { useState, useEffect } from "react";
 import { 
   Settings as SettingsIcon, Key, Eye, EyeOff, Trash2, Check, Sparkles, 
-  RefreshCw, Bot, Plus, Save
+  RefreshCw, Bot, Plus, Save, Server, ListOrdered, ArrowUp, ArrowDown, X, Gauge, Braces,
+  DollarSign, RotateCcw, Shuffle, Languages, Dices, Pencil, FlaskConical, UserRound
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { DecorativeShapes } from "@/components/prompt/DecorativeShapes";
-import { useApiKey, ApiProvider } from "@/hooks/useApiKey";
+import { useApiKey, ApiProvider, FallbackProviderConfig, localServerPresets } from "@/hooks/useApiKey";
 import { useCustomModels } from "@/hooks/useCustomModels";
 import { useModels } from "@/hooks/useModels";
+import { useWildcards } from "@/hooks/useWildcards";
+import { useCharacters } from "@/hooks/useCharacters";
+import { useModelPrices } from "@/hooks/useModelPrices";
+import { usePromptHistory } from "@/hooks/usePromptHistory";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_CONCURRENCY_LIMITS, MIN_CONCURRENCY, MAX_CONCURRENCY } from "@/lib/requestScheduler";
+import { getProviderAdapter, getProviderAdapters } from "@/lib/providerAdapters";
+import { DEFAULT_MODEL_PRICES, formatCost, formatTokens } from "@/lib/pricing";
+import { DEFAULT_SIMILARITY_THRESHOLD, SIMILARITY_THRESHOLD_OPTIONS, formatSimilarity } from "@/lib/similarity";
+import { OutputLanguage } from "@/lib/languageDetect";
+import { normalizeWildcardName, parseWordList, MAX_WILDCARD_WORDS } from "@/lib/wildcards";
+import { CharacterDraft, EMPTY_CHARACTER_DRAFT, CHARACTER_LIMITS } from "@/lib/characters";
+import { MockProviderConfig, MOCK_FAILURE_RATES, MOCK_LATENCY_OPTIONS, DEFAULT_MOCK_CONFIG } from "@/lib/mockProvider";
 import { cn } from "@/lib/utils";
 
-const providers = [
-  {
-    id: "openai" as ApiProvider,
-    name: "OpenAI",
-    description: "GPT-4o, GPT-4, etc.",
-    color: "bg-quaternary",
-    url: "https://platform.openai.com/api-keys",
-  },
-  {
-    id: "gemini" as ApiProvider,
-    name: "Google Gemini",
-    description: "Gemini Pro, Flash, etc.",
-    color: "bg-tertiary",
-    url: "https://aistudio.google.com/apikey",
-  },
-  {
-    id: "openrouter" as ApiProvider,
-    name: "OpenRouter",
-    description: "Multi-provider gateway",
-    color: "bg-secondary",
-    url: "https://openrouter.ai/keys",
-  },
-  {
-    id: "groq" as ApiProvider,
-    name: "Groq",
-    description: "Llama, Mixtral, etc.",
-    color: "bg-primary",
-    url: "https://console.groq.com/keys",
-  },
-  {
-    id: "custom" as ApiProvider,
-    name: "Custom",
-    description: "Your own models",
-    color: "bg-muted",
-    url: "",
-  },
+// Badge colours are a UI concern; names, descriptions and key links come from the adapters
+const providerColors: Partial<Record<ApiProvider, string>> = {
+  openai: "bg-quaternary",
+  gemini: "bg-tertiary",
+  openrouter: "bg-secondary",
+  groq: "bg-primary",
+  anthropic: "bg-secondary",
+  local: "bg-quaternary",
+};
+
+// Response quirks the mock provider can imitate, in the order Settings lists them
+const mockNoiseOptions: { key: keyof Pick<MockProviderConfig, "truncate" | "markdownNoise" | "thinkingTags" | "ipTerms">; label: string; hint: string }[] = [
+  { key: "truncate", label: "Truncated output", hint: "Stops mid-sentence at the token limit, so continuations kick in" },
+  { key: "markdownNoise", label: "Markdown noise", hint: "Preamble, bold label and a closing remark around the prompt" },
+  { key: "thinkingTags", label: "<thinking> tags", hint: "Reasoning block before the prompt" },
+  { key: "ipTerms", label: "IP terms", hint: "Trademarked characters, studios and artists for the IP filter" },
 ];
 
+const providers = getProviderAdapters().map((adapter) => ({
+  id: adapter.id,
+  name: adapter.name,
+  description: adapter.description,
+  color: providerColors[adapter.id] ?? "bg-muted",
+  url: adapter.keyUrl ?? "",
+}));
+
 
 export default function Settings() {
   const { 
-    provider, model, selectedCustomModelId, currentApiKey,
+    provider, model, selectedCustomModelId, currentApiKey, localBaseUrl,
     setApiKeyForProvider, getApiKeyForProvider, setProvider, setModel, 
-    setSelectedCustomModelId, clearApiKeyForProvider, hasApiKey 
+    setSelectedCustomModelId, setLocalBaseUrl, clearApiKeyForProvider, hasApiKey,
+    fallbackProviders, setFallbackProviders, concurrencyLimits, setConcurrencyLimit,
+    structuredOutput, setStructuredOutput, similarityThreshold, setSimilarityThreshold,
+    outputLanguage, setOutputLanguage, mockProviderConfig, setMockProviderConfig
   } = useApiKey();
   const { customModels, addCustomModel, removeCustomModel } = useCustomModels();
+  const { prices, overrides, setModelPrice, resetModelPrice, resetAllPrices } = useModelPrices();
+  const { spendSummary } = usePromptHistory();
+  const { wildcardLists, saveWildcardList, removeWildcardList } = useWildcards();
+  const { characters, saveCharacter, removeCharacter } = useCharacters();
   const { models, isLoading: isLoadingModels, error: modelsError, fetchModels, refreshModels } = useModels();
   
   const [inputKey, setInputKey] = useState("");
+  const [inputLocalUrl, setInputLocalUrl] = useState("");
   const [showKey, setShowKey] = useState(false);
   const [saved, setSaved] = useState(false);
   const [isAddModelOpen, setIsAddModelOpen] = useState(false);
   const [showNewModelKey, setShowNewModelKey] = useState(false);
   const [newModel, setNewModel] = useState({ name: "", baseUrl: "", modelId: "", apiKey: "" });
+  const [newPrice, setNewPrice] = useState({ model: "", input: "", output: "" });
+  const [isWildcardOpen, setIsWildcardOpen] = useState(false);
+  const [wildcardDraft, setWildcardDraft] = useState({ name: "", words: "" });
+  const [isCharacterOpen, setIsCharacterOpen] = useState(false);
+  const [characterDraft, setCharacterDraft] = useState<CharacterDraft>(EMPTY_CHARACTER_DRAFT);
+  // Profile being edited; null while adding a new one
+  const [editingCharacterId, setEditingCharacterId] = useState<string | null>(null);
   
   const { toast } = useToast();
 
@@ -81,14 +99,45 @@ export default function Settings() {
     }
   }, [provider]);
 
-  // Fetch models when provider has API key
+  // Sync local server URL input with the stored value
+  useEffect(() => {
+    setInputLocalUrl(localBaseUrl);
+  }, [localBaseUrl]);
+
+  // Fetch models when provider has API key (local servers and the mock don't need one)
   useEffect(() => {
-    if (provider !== "custom" && currentApiKey) {
+    if (provider === "local") {
+      fetchModels(provider, currentApiKey, localBaseUrl);
+    } else if (provider !== "custom" && (currentApiKey || !getProviderAdapter(provider).requiresKey)) {
       fetchModels(provider, currentApiKey);
     }
-  }, [provider, currentApiKey]);
+  }, [provider, currentApiKey, localBaseUrl]);
 
   const handleSetModel = () => {
+    if (provider === "local") {
+      handleSetLocalServer();
+      return;
+    }
+
+    // The mock has no key to store; the model is saved when it is picked
+    if (provider === "mock") {
+      if (!model) {
+        toast({
+          title: "Error",
+          description: "Please select a model",
+          variant: "destructive",
+        });
+        return;
+      }
+      setSaved(true);
+      toast({
+        title: "✨ Model Set!",
+        description: `Using ${model} with local mock responses`,
+      });
+      setTimeout(() => setSaved(false), 2000);
+      return;
+    }
+
     if (!inputKey.trim()) {
       toast({
         title: "Error",
@@ -120,6 +169,28 @@ export default function Settings() {
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const handleSetLocalServer = () => {
+    if (!setLocalBaseUrl(inputLocalUrl)) {
+      toast({
+        title: "Error",
+        description: "Local server URL must point to localhost or 127.0.0.1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The key is optional for local servers
+    if (inputKey.trim()) {
+      setApiKeyForProvider("local", inputKey);
+    }
+    setSaved(true);
+    toast({
+      title: model ? "✨ Model Set!" : "✨ Server Saved!",
+      description: model ? `Using ${model} on your local server` : "Now select a model from the list",
+    });
+    setTimeout(() => setSaved(false), 2000);
+  };
+
   const handleClear = () => {
     clearApiKeyForProvider(provider as Exclude<ApiProvider, "custom">);
     setInputKey("");
@@ -130,8 +201,8 @@ export default function Settings() {
   };
 
 const handleRefreshModels = () => {
-    if (currentApiKey && provider !== "custom") {
-      refreshModels(provider, currentApiKey);
+    if (!getProviderAdapter(provider).requiresKey || (currentApiKey && provider !== "custom")) {
+      refreshModels(provider, currentApiKey, provider === "local" ? localBaseUrl : undefined);
       toast({
         title: "Refreshing models...",
         description: "Fetching available models from API",
@@ -190,8 +261,101 @@ const handleRefreshModels = () => {
     });
   };
 
+  const handleSaveWildcard = () => {
+    const name = normalizeWildcardName(wildcardDraft.name);
+    const words = parseWordList(wildcardDraft.words);
+    if (!name || words.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a list name and at least one word",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveWildcardList(name, words);
+    setWildcardDraft({ name: "", words: "" });
+    setIsWildcardOpen(false);
+    toast({
+      title: "Word list saved",
+      description: `Use __${name}__ in your ideas`,
+    });
+  };
+
+  const handleSaveCharacter = () => {
+    const saved = saveCharacter(characterDraft, editingCharacterId ?? undefined);
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Enter a name and a physical description",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCharacterDraft(EMPTY_CHARACTER_DRAFT);
+    setEditingCharacterId(null);
+    setIsCharacterOpen(false);
+    toast({
+      title: "Character saved",
+      description: `Select ${saved.name} in the generator to use it`,
+    });
+  };
+
+  const handleAddPrice = () => {
+    const added = setModelPrice(newPrice.model, {
+      input: parseFloat(newPrice.input),
+      output: parseFloat(newPrice.output),
+    });
+    if (!added) {
+      toast({
+        title: "Invalid price",
+        description: "Enter a model ID and non-negative prices per 1M tokens",
+        variant: "destructive",
+      });
+      return;
+    }
+    setNewPrice({ model: "", input: "", output: "" });
+  };
+
+  const handleUpdatePrice = (model: string, field: "input" | "output", value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed === prices[model]?.[field]) return;
+    setModelPrice(model, { ...prices[model], [field]: parsed });
+  };
+
+  const handleAddFallback = (prov: string) => {
+    setFallbackProviders([
+      ...fallbackProviders,
+      { provider: prov as FallbackProviderConfig["provider"], model: "" },
+    ]);
+  };
+
+  const handleMoveFallback = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fallbackProviders.length) return;
+    const updated = [...fallbackProviders];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setFallbackProviders(updated);
+  };
+
+  const handleUpdateFallbackModel = (index: number, modelId: string) => {
+    setFallbackProviders(fallbackProviders.map((f, i) => (i === index ? { ...f, model: modelId } : f)));
+  };
+
+  const handleRemoveFallback = (index: number) => {
+    setFallbackProviders(fallbackProviders.filter((_, i) => i !== index));
+  };
+
   const selectedCustomModel = customModels.find(m => m.id === selectedCustomModelId);
   const currentProviderInfo = providers.find(p => p.id === provider);
+  const currentAdapter = getProviderAdapter(provider);
+  // Local servers work without a key; every hosted provider needs one
+  const needsApiKey = currentAdapter.requiresKey;
+  const currentConcurrency = concurrencyLimits[provider] ?? DEFAULT_CONCURRENCY_LIMITS[provider];
+  const availableFallbacks = providers.filter(
+    (p) => p.id !== "custom" && !fallbackProviders.some((f) => f.provider === p.id)
+  );
 
   return (
     <MainLayout>
@@ -225,7 +389,7 @@ const handleRefreshModels = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-0">
-            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2 sm:gap-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2 sm:gap-3">
               {providers.map((prov) => {
                 const isSelected = provider === prov.id;
                 const hasKey = prov.id !== "custom" && getApiKeyForProvider(prov.id as Exclude<ApiProvider, "custom">);
@@ -439,54 +603,97 @@ const handleRefreshModels = () => {
                 {currentProviderInfo?.name} Configuration
               </CardTitle>
               <CardDescription className="text-xs sm:text-sm">
-                Enter API key and select model for {currentProviderInfo?.name}
+                {needsApiKey
+                  ? `Enter API key and select model for ${currentProviderInfo?.name}`
+                  : provider === "mock"
+                    ? "Canned answers in OpenAI or Gemini format, generated in the browser"
+                    : "Point to a model server running on this machine"}
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-0 space-y-4">
-              {/* API Key Input */}
-              <div className="space-y-2">
-                <Label className="text-xs font-medium flex items-center gap-1.5">
-                  <Key className="h-3.5 w-3.5" />
-                  API Key
-                </Label>
-                <div className="relative">
+              {/* Local Server URL (loopback only) */}
+              {provider === "local" && (
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium flex items-center gap-1.5">
+                    <Server className="h-3.5 w-3.5" />
+                    Server URL
+                  </Label>
                   <Input
-                    type={showKey ? "text" : "password"}
-                    placeholder={`Enter your ${currentProviderInfo?.name} API key...`}
-                    value={inputKey}
-                    onChange={(e) => setInputKey(e.target.value)}
-                    className="pr-12 text-sm"
+                    type="url"
+                    placeholder="http://localhost:11434/v1"
+                    value={inputLocalUrl}
+                    onChange={(e) => setInputLocalUrl(e.target.value)}
+                    className="text-sm"
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowKey(!showKey)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                  >
-                    {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {localServerPresets.map((preset) => (
+                      <button
+                        key={preset.id}
+                        type="button"
+                        onClick={() => setInputLocalUrl(preset.baseUrl)}
+                        className={cn(
+                          "px-2.5 py-1 text-xs font-medium rounded-lg border transition-all",
+                          inputLocalUrl === preset.baseUrl
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border bg-background hover:border-primary/50 hover:bg-muted"
+                        )}
+                      >
+                        {preset.name}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    Only http://localhost or 127.0.0.1 is allowed. Ollama needs OLLAMA_ORIGINS set to this site's origin; LM Studio needs CORS enabled.
+                  </p>
                 </div>
-              </div>
+              )}
+
+              {/* API Key Input */}
+              {provider !== "mock" && (
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium flex items-center gap-1.5">
+                    <Key className="h-3.5 w-3.5" />
+                    API Key {!needsApiKey && <span className="text-muted-foreground">(optional)</span>}
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      type={showKey ? "text" : "password"}
+                      placeholder={`Enter your ${currentProviderInfo?.name} API key...`}
+                      value={inputKey}
+                      onChange={(e) => setInputKey(e.target.value)}
+                      className="pr-12 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowKey(!showKey)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+              )}
 
               {/* Model Selection */}
               <div className="space-y-2">
                 <Label className="text-xs font-medium flex items-center gap-1.5">
                   <Bot className="h-3.5 w-3.5" />
-                  Model {provider === "openrouter" && <span className="text-muted-foreground">(Model ID)</span>}
+                  Model {currentAdapter.modelIdPlaceholder && <span className="text-muted-foreground">(Model ID)</span>}
                 </Label>
-                {provider === "openrouter" ? (
+                {currentAdapter.modelIdPlaceholder ? (
                   <Input
                     type="text"
-                    placeholder="e.g. openai/gpt-4o, anthropic/claude-3.5-sonnet"
+                    placeholder={currentAdapter.modelIdPlaceholder}
                     value={model}
                     onChange={(e) => setModel(e.target.value)}
                   />
                 ) : (
                   <div className="flex gap-2">
                     <div className="flex-1 min-w-0">
-                      <Select value={model} onValueChange={setModel} disabled={!currentApiKey}>
+                      <Select value={model} onValueChange={setModel} disabled={needsApiKey && !currentApiKey}>
                         <SelectTrigger className="w-full">
                           <SelectValue placeholder={
-                            !currentApiKey 
+                            needsApiKey && !currentApiKey 
                               ? "Enter API key first" 
                               : isLoadingModels 
                                 ? "Loading models..." 
@@ -506,14 +713,14 @@ const handleRefreshModels = () => {
                       variant="outline" 
                       size="icon" 
                       onClick={handleRefreshModels}
-                      disabled={isLoadingModels || !currentApiKey}
+                      disabled={isLoadingModels || (needsApiKey && !currentApiKey)}
                       className="flex-shrink-0"
                     >
                       <RefreshCw className={cn("h-4 w-4", isLoadingModels && "animate-spin")} />
                     </Button>
                   </div>
                 )}
-                {modelsError && provider !== "openrouter" && (
+                {modelsError && !currentAdapter.modelIdPlaceholder && (
                   <p className="text-xs text-destructive">{modelsError}</p>
                 )}
               </div>
@@ -542,7 +749,7 @@ const handleRefreshModels = () => {
               </div>
 
               {/* Status indicator */}
-              {model && currentApiKey && (
+              {model && (currentApiKey || !needsApiKey) && (
                 <div className="flex items-center gap-2 p-2.5 sm:p-3 rounded-xl border-2 bg-tertiary/10 border-tertiary">
                   <Bot className="h-4 w-4 text-tertiary flex-shrink-0" />
                   <span className="text-xs sm:text-sm font-medium truncate">Active: {model}</span>
@@ -552,6 +759,687 @@ const handleRefreshModels = () => {
           </Card>
         )}
 
+        {/* Mock Provider Behaviour */}
+        {provider === "mock" && (
+          <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+            <CardHeader className="pb-3 sm:pb-4">
+              <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+                <FlaskConical className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+                Mock Responses
+              </CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                What the mock sends back. The same seed and request always give the same answer, and failures hit the same requests in a run.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-0 space-y-4">
+              {mockNoiseOptions.map((option) => (
+                <div key={option.key} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <Label htmlFor={`mock-${option.key}`} className="text-sm font-medium">
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{option.hint}</p>
+                  </div>
+                  <Switch
+                    id={`mock-${option.key}`}
+                    checked={mockProviderConfig[option.key]}
+                    onCheckedChange={(checked) => setMockProviderConfig({ [option.key]: checked })}
+                  />
+                </div>
+              ))}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">429 rate limit</Label>
+                  <Select
+                    value={String(mockProviderConfig.rateLimitRate)}
+                    onValueChange={(value) => setMockProviderConfig({ rateLimitRate: Number(value) })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOCK_FAILURE_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate === 0 ? "Never" : rate === 1 ? "Every request" : `${Math.round(rate * 100)}% of requests`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">Timeout (504)</Label>
+                  <Select
+                    value={String(mockProviderConfig.timeoutRate)}
+                    onValueChange={(value) => setMockProviderConfig({ timeoutRate: Number(value) })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOCK_FAILURE_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate === 0 ? "Never" : rate === 1 ? "Every request" : `${Math.round(rate * 100)}% of requests`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">Latency</Label>
+                  <Select
+                    value={String(mockProviderConfig.latencyMs)}
+                    onValueChange={(value) => setMockProviderConfig({ latencyMs: Number(value) })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOCK_LATENCY_OPTIONS.map((ms) => (
+                        <SelectItem key={ms} value={String(ms)}>
+                          {ms === 0 ? "Instant" : `${ms} ms`}{ms === DEFAULT_MOCK_CONFIG.latencyMs ? " (default)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mock-seed" className="text-xs font-medium flex items-center gap-1.5">
+                    <Dices className="h-3.5 w-3.5" />
+                    Seed
+                  </Label>
+                  <Input
+                    id="mock-seed"
+                    type="number"
+                    min={0}
+                    value={mockProviderConfig.seed}
+                    onChange={(e) => setMockProviderConfig({ seed: Number(e.target.value) })}
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Output Format */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+              <Braces className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+              Structured Output
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Ask the model for JSON (prompt, negative prompt, style tags, subject) instead of cleaning up free text
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="structured-output" className="text-sm font-medium">
+                Use JSON schema output
+              </Label>
+              <Switch
+                id="structured-output"
+                checked={structuredOutput}
+                onCheckedChange={setStructuredOutput}
+              />
+            </div>
+            {structuredOutput && !currentAdapter.supportsStructuredOutput && (
+              <p className="text-xs text-muted-foreground">
+                {currentProviderInfo?.name || provider} has no JSON schema mode here, so its output is still cleaned as plain text. Supported: OpenAI, Google Gemini, Mock.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Request Scheduling */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+              <Gauge className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+              Parallel Requests
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              How many batch prompts run at once on {currentProviderInfo?.name || provider}. The rest wait in a queue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <Select
+              value={String(currentConcurrency)}
+              onValueChange={(value) => setConcurrencyLimit(provider, Number(value))}
+            >
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_CONCURRENCY - MIN_CONCURRENCY + 1 }, (_, i) => MIN_CONCURRENCY + i).map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n} at a time{n === DEFAULT_CONCURRENCY_LIMITS[provider] ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        {/* Variation Diversity */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+              <Shuffle className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+              Variation Diversity
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Regenerate a batch variation once when its wording overlaps another variation of the same idea by this much
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <Select
+              value={String(similarityThreshold)}
+              onValueChange={(value) => setSimilarityThreshold(Number(value))}
+            >
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIMILARITY_THRESHOLD_OPTIONS.map((threshold) => (
+                  <SelectItem key={threshold} value={String(threshold)}>
+                    {threshold === 0
+                      ? "Off"
+                      : `${formatSimilarity(threshold)} overlap or more${threshold === DEFAULT_SIMILARITY_THRESHOLD ? " (default)" : ""}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        {/* Output Language */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+              <Languages className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+              Output Language
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Ideas written in Indonesian are detected automatically. Image and video models follow English prompts best.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <Select
+              value={outputLanguage}
+              onValueChange={(value) => setOutputLanguage(value as OutputLanguage)}
+            >
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="english">Translate to English (default)</SelectItem>
+                <SelectItem value="source">Keep the idea's language</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        {/* Wildcard word lists */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+                  <Dices className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+                  Wildcards
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  Word lists for <code>__name__</code> in the idea box. <code>{"{red|blue|gold}"}</code> picks one option inline.
+                </CardDescription>
+              </div>
+              <Dialog open={isWildcardOpen} onOpenChange={(open) => {
+                setIsWildcardOpen(open);
+                if (!open) {
+                  setWildcardDraft({ name: "", words: "" });
+                }
+              }}>
+                <DialogTrigger asChild>
+                  <Button size="sm" className="gap-1.5">
+                    <Plus className="h-4 w-4" />
+                    <span className="hidden sm:inline">Add List</span>
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle className="font-heading">Word List</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="wildcard-name">Name</Label>
+                      <Input
+                        id="wildcard-name"
+                        placeholder="e.g., location"
+                        value={wildcardDraft.name}
+                        onChange={(e) => setWildcardDraft({ ...wildcardDraft, name: e.target.value })}
+                        maxLength={40}
+                      />
+                      {normalizeWildcardName(wildcardDraft.name) && (
+                        <p className="text-[10px] text-muted-foreground">
+                          Used as __{normalizeWildcardName(wildcardDraft.name)}__
+                        </p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="wildcard-words">Words</Label>
+                      <Textarea
+                        id="wildcard-words"
+                        placeholder={"misty forest\nneon city street\n{quiet|stormy} beach"}
+                        value={wildcardDraft.words}
+                        onChange={(e) => setWildcardDraft({ ...wildcardDraft, words: e.target.value })}
+                        className="min-h-[140px] text-sm"
+                      />
+                      <p className="text-[10px] text-muted-foreground">
+                        One word or phrase per line, up to {MAX_WILDCARD_WORDS}
+                      </p>
+                    </div>
+                    <Button onClick={handleSaveWildcard} className="w-full gap-2">
+                      <Save className="h-4 w-4" />
+                      Save List
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-2">
+            {wildcardLists.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No word lists yet</p>
+            ) : (
+              wildcardLists.map((list) => (
+                <div key={list.name} className="flex items-center gap-3 p-3 rounded-xl border-2 border-border">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-sm truncate">__{list.name}__</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {list.words.length} word{list.words.length !== 1 ? "s" : ""} · {list.words.slice(0, 5).join(", ")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => {
+                      setWildcardDraft({ name: list.name, words: list.words.join("\n") });
+                      setIsWildcardOpen(true);
+                    }}
+                  >
+                    <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeWildcardList(list.name)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Character profiles */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+                  <UserRound className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+                  Characters
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  Recurring characters and subjects. The one selected in the generator is described the same way in every prompt.
+                </CardDescription>
+              </div>
+              <Dialog open={isCharacterOpen} onOpenChange={(open) => {
+                setIsCharacterOpen(open);
+                if (!open) {
+                  setCharacterDraft(EMPTY_CHARACTER_DRAFT);
+                  setEditingCharacterId(null);
+                }
+              }}>
+                <DialogTrigger asChild>
+                  <Button size="sm" className="gap-1.5">
+                    <Plus className="h-4 w-4" />
+                    <span className="hidden sm:inline">Add Character</span>
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle className="font-heading">Character Profile</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="character-name">Name</Label>
+                      <Input
+                        id="character-name"
+                        placeholder="e.g., Pip the fox mascot"
+                        value={characterDraft.name}
+                        onChange={(e) => setCharacterDraft({ ...characterDraft, name: e.target.value })}
+                        maxLength={CHARACTER_LIMITS.NAME}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="character-description">Physical Description</Label>
+                      <Textarea
+                        id="character-description"
+                        placeholder="e.g., small round fox, orange fur, white-tipped tail, big amber eyes, tiny scar over the left brow"
+                        value={characterDraft.description}
+                        onChange={(e) => setCharacterDraft({ ...characterDraft, description: e.target.value })}
+                        className="min-h-[90px] text-sm"
+                        maxLength={CHARACTER_LIMITS.FIELD}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="character-outfit">Outfit</Label>
+                      <Input
+                        id="character-outfit"
+                        placeholder="e.g., mustard raincoat, teal rubber boots"
+                        value={characterDraft.outfit}
+                        onChange={(e) => setCharacterDraft({ ...characterDraft, outfit: e.target.value })}
+                        maxLength={CHARACTER_LIMITS.FIELD}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="character-palette">Color Palette</Label>
+                      <Input
+                        id="character-palette"
+                        placeholder="e.g., orange, mustard yellow, teal, cream"
+                        value={characterDraft.palette}
+                        onChange={(e) => setCharacterDraft({ ...characterDraft, palette: e.target.value })}
+                        maxLength={CHARACTER_LIMITS.FIELD}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="character-forbidden">Forbidden Traits</Label>
+                      <Input
+                        id="character-forbidden"
+                        placeholder="e.g., wings, realistic fur, human hands, sunglasses"
+                        value={characterDraft.forbidden}
+                        onChange={(e) => setCharacterDraft({ ...characterDraft, forbidden: e.target.value })}
+                        maxLength={CHARACTER_LIMITS.FIELD}
+                      />
+                      <p className="text-[10px] text-muted-foreground">
+                        Comma separated; also added to the negative prompt of image types
+                      </p>
+                    </div>
+                    <Button onClick={handleSaveCharacter} className="w-full gap-2">
+                      <Save className="h-4 w-4" />
+                      Save Character
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-2">
+            {characters.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No characters yet</p>
+            ) : (
+              characters.map((character) => (
+                <div key={character.id} className="flex items-center gap-3 p-3 rounded-xl border-2 border-border">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-sm truncate">{character.name}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {[character.description, character.outfit, character.palette].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => {
+                      const { id, ...draft } = character;
+                      setCharacterDraft(draft);
+                      setEditingCharacterId(id);
+                      setIsCharacterOpen(true);
+                    }}
+                  >
+                    <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeCharacter(character.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Fallback Chain */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+              <ListOrdered className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+              Fallback Providers
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              When a request is rate limited (429) or the provider is down (5xx), it is retried on the next provider below that has a stored key
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            {fallbackProviders.length === 0 ? (
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                No fallbacks configured. Failed requests are reported as errors.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {fallbackProviders.map((fallback, index) => {
+                  const info = providers.find((p) => p.id === fallback.provider);
+                  const hasKey = !getProviderAdapter(fallback.provider).requiresKey || !!getApiKeyForProvider(fallback.provider);
+                  return (
+                    <div
+                      key={fallback.provider}
+                      className="flex items-center gap-2 p-2 sm:p-3 rounded-xl border-2 border-border bg-card/50"
+                    >
+                      <span className="font-bold text-xs sm:text-sm w-5 text-center flex-shrink-0">{index + 1}</span>
+                      <div className="min-w-0 w-24 sm:w-32 flex-shrink-0">
+                        <p className="font-semibold text-xs sm:text-sm truncate">{info?.name || fallback.provider}</p>
+                        {!hasKey && (
+                          <p className="text-[10px] text-destructive truncate">No API key - skipped</p>
+                        )}
+                      </div>
+                      <Input
+                        value={fallback.model}
+                        onChange={(e) => handleUpdateFallbackModel(index, e.target.value)}
+                        placeholder="Default model"
+                        className="h-8 text-xs sm:text-sm font-mono flex-1 min-w-0"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0"
+                        onClick={() => handleMoveFallback(index, -1)}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0"
+                        onClick={() => handleMoveFallback(index, 1)}
+                        disabled={index === fallbackProviders.length - 1}
+                        title="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0 text-destructive hover:text-destructive"
+                        onClick={() => handleRemoveFallback(index)}
+                        title="Remove"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {availableFallbacks.length > 0 && (
+              <Select value="" onValueChange={handleAddFallback}>
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue placeholder="Add fallback provider..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableFallbacks.map((prov) => (
+                    <SelectItem key={prov.id} value={prov.id}>
+                      {prov.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pricing & Spend */}
+        <Card className="mb-6 hover:translate-x-0 hover:translate-y-0 hover:shadow-hard">
+          <CardHeader className="pb-3 sm:pb-4">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="font-heading text-base sm:text-lg flex items-center gap-2">
+                  <DollarSign className="h-4 w-4 sm:h-5 sm:w-5" strokeWidth={2.5} />
+                  Pricing & Usage
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  USD per 1M tokens, used for the cost estimates shown with each result
+                </CardDescription>
+              </div>
+              {Object.keys(overrides).length > 0 && (
+                <Button variant="outline" size="sm" onClick={resetAllPrices} className="gap-1.5 text-xs">
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Reset
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-4">
+            {/* Spend totals from history */}
+            {spendSummary.total.prompts > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="p-3 rounded-xl border-2 border-border bg-card/50">
+                  <p className="text-xs font-semibold mb-2">By provider</p>
+                  {Object.entries(spendSummary.byProvider).map(([prov, total]) => (
+                    <div key={prov} className="flex justify-between text-xs text-muted-foreground">
+                      <span>{providers.find((p) => p.id === prov)?.name || prov}</span>
+                      <span>{formatTokens(total.totalTokens)} tok · {formatCost(total.costUsd)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="p-3 rounded-xl border-2 border-border bg-card/50">
+                  <p className="text-xs font-semibold mb-2">By day (last 7)</p>
+                  {Object.entries(spendSummary.byDay)
+                    .sort(([a], [b]) => b.localeCompare(a))
+                    .slice(0, 7)
+                    .map(([day, total]) => (
+                      <div key={day} className="flex justify-between text-xs text-muted-foreground">
+                        <span>{day}</span>
+                        <span>{total.prompts} prompts · {formatCost(total.costUsd)}</span>
+                      </div>
+                    ))}
+                </div>
+                <p className="sm:col-span-2 text-[10px] sm:text-xs text-muted-foreground">
+                  Totals cover prompts still in history. {spendSummary.total.unpricedPrompts > 0 &&
+                    `${spendSummary.total.unpricedPrompts} prompt(s) used a model without a price and are not in the cost.`}
+                </p>
+              </div>
+            )}
+
+            {/* Price table */}
+            <div className="space-y-1.5 max-h-72 overflow-y-auto pr-1">
+              <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 text-[10px] sm:text-xs font-semibold text-muted-foreground px-1">
+                <span>Model</span>
+                <span>Input</span>
+                <span>Output</span>
+                <span />
+              </div>
+              {Object.entries(prices)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([modelId, price]) => (
+                  <div key={modelId} className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 items-center">
+                    <span className="text-xs font-mono truncate" title={modelId}>{modelId}</span>
+                    <Input
+                      key={`${modelId}-in-${price.input}`}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      defaultValue={price.input}
+                      onBlur={(e) => handleUpdatePrice(modelId, "input", e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      key={`${modelId}-out-${price.output}`}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      defaultValue={price.output}
+                      onBlur={(e) => handleUpdatePrice(modelId, "output", e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    {overrides[modelId] ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => resetModelPrice(modelId)}
+                        title={DEFAULT_MODEL_PRICES[modelId] ? "Reset to default" : "Remove"}
+                      >
+                        {DEFAULT_MODEL_PRICES[modelId] ? <RotateCcw className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                      </Button>
+                    ) : (
+                      <span />
+                    )}
+                  </div>
+                ))}
+            </div>
+            <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 items-center pt-2 border-t border-border">
+              <Input
+                value={newPrice.model}
+                onChange={(e) => setNewPrice({ ...newPrice, model: e.target.value })}
+                placeholder="model-id"
+                className="h-8 text-xs font-mono"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={newPrice.input}
+                onChange={(e) => setNewPrice({ ...newPrice, input: e.target.value })}
+                placeholder="In"
+                className="h-8 text-xs"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={newPrice.output}
+                onChange={(e) => setNewPrice({ ...newPrice, output: e.target.value })}
+                placeholder="Out"
+                className="h-8 text-xs"
+              />
+              <Button size="icon" className="h-8 w-8" onClick={handleAddPrice} disabled={!newPrice.model.trim()} title="Add price">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Info */}
         <div className="mt-6 sm:mt-8 text-center px-4">
           <p className="text-xs sm:text-sm text-muted-foreground leading-relaxed">
@@ -567,7 +1455,8 @@ const handleRefreshModels = () => {
                     prov.id === "openai" && "text-quaternary",
                     prov.id === "gemini" && "text-tertiary",
                     prov.id === "openrouter" && "text-secondary",
-                    prov.id === "groq" && "text-primary"
+                    prov.id === "groq" && "text-primary",
+                    prov.id === "anthropic" && "text-secondary"
                   )}
                 >
                   {prov.name}